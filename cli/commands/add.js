@@ -0,0 +1,256 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import prompts from 'prompts';
+import kleur from 'kleur';
+import { ENV_VARIABLES, FEATURES } from '../features.js';
+import { fail, log } from '../output.js';
+import { detectPackageManager, getInstallCommand } from '../package-managers.js';
+import { PACKAGE_ROOT } from '../templates.js';
+
+const HELP = `
+Usage: create-mix-tstart add <feature...> [options]
+
+Install Mix features into an existing TanStack Start app.
+
+Features:
+${Object.entries(FEATURES).map(([name, feature]) => `  ${name.padEnd(31)}${feature.description}`).join('\n')}
+
+Options:
+  -d, --dir <path>               Project directory (default: current directory)
+  -f, --force                    Overwrite files that differ from the feature's version
+  -y, --yes                      Never prompt; refuse on conflicts unless --force is set
+  -h, --help                     Show this help message
+`;
+
+export async function add(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const available = Object.keys(FEATURES);
+  const unknown = options.features.filter(name => !Object.hasOwn(FEATURES, name));
+  if (unknown.length > 0) {
+    fail(`Unknown feature "${unknown[0]}". Available: ${available.join(', ')}`);
+  }
+
+  let features = options.features;
+
+  if (features.length === 0) {
+    if (options.yes) {
+      fail(`No feature given. Available: ${available.join(', ')}`);
+    }
+
+    const response = await prompts({
+      type: 'multiselect',
+      name: 'features',
+      message: 'Features to add:',
+      choices: Object.entries(FEATURES).map(([name, feature]) => ({
+        title: name,
+        description: feature.description,
+        value: name,
+      })),
+      min: 1,
+    });
+
+    if (!response.features) {
+      fail('Cancelled');
+    }
+
+    features = response.features;
+  }
+
+  const projectDir = path.resolve(options.dir);
+  const packageJsonPath = path.join(projectDir, 'package.json');
+
+  if (!fs.existsSync(packageJsonPath)) {
+    fail(`No package.json found in ${projectDir}`);
+  }
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const installed = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  if (!installed['@tanstack/react-start']) {
+    fail(`${projectDir} is not a TanStack Start app (no @tanstack/react-start dependency)`);
+  }
+
+  log(kleur.bold().cyan(`\n🧩 Adding ${features.join(', ')}\n`));
+
+  const files = [...new Set(features.flatMap(name => FEATURES[name].files))];
+  const plan = await planFiles(files, projectDir, options);
+
+  for (const { file, action } of plan) {
+    if (action === 'create' || action === 'overwrite') {
+      const destPath = path.join(projectDir, file);
+      fs.mkdirSync(path.dirname(destPath), { recursive: true });
+      fs.copyFileSync(path.join(PACKAGE_ROOT, file), destPath);
+    }
+
+    const label = {
+      create: kleur.green('create   '),
+      overwrite: kleur.yellow('overwrite'),
+      skip: kleur.yellow('skip     '),
+      unchanged: kleur.gray('unchanged'),
+    }[action];
+    log(`  ${label} ${file}`);
+  }
+
+  const addedDependencies = addDependencies(packageJson, features);
+  if (addedDependencies.length > 0) {
+    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2) + '\n');
+    log(`  ${kleur.green('update   ')} package.json (${addedDependencies.join(', ')})`);
+  }
+
+  const addedEnv = addEnvVariables(path.join(projectDir, '.env.example'), features);
+  if (addedEnv.length > 0) {
+    log(`  ${kleur.green('update   ')} .env.example (${addedEnv.join(', ')})`);
+  }
+
+  log(kleur.bold().green('\n✓ Features added\n'));
+
+  const packageManager = detectPackageManager(projectDir) ?? 'npm';
+  if (addedDependencies.length > 0) {
+    log(kleur.white(`  Run ${kleur.bold(getInstallCommand(packageManager))} to install the new dependencies`));
+  }
+  if (addedEnv.length > 0) {
+    log(kleur.white(`  Set ${addedEnv.join(', ')} in .env`));
+  }
+  if (files.some(file => file.startsWith('src/routes/'))) {
+    log(kleur.white('  Start the dev server once to regenerate src/routeTree.gen.ts'));
+  }
+  log('');
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        dir: { type: 'string', short: 'd', default: '.' },
+        force: { type: 'boolean', short: 'f' },
+        yes: { type: 'boolean', short: 'y' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  return {
+    features: positionals,
+    dir: values.dir,
+    force: Boolean(values.force),
+    yes: Boolean(values.yes),
+    help: Boolean(values.help),
+  };
+}
+
+/**
+ * Decide what to do with each feature file. Files that already exist with
+ * different contents are conflicts: overwritten with --force, refused with
+ * --yes or without a terminal, and otherwise resolved by asking the user.
+ */
+async function planFiles(files, projectDir, options) {
+  const plan = [];
+  const conflicts = [];
+
+  for (const file of files) {
+    const destPath = path.join(projectDir, file);
+
+    if (!fs.existsSync(destPath)) {
+      plan.push({ file, action: 'create' });
+    } else if (fs.readFileSync(destPath).equals(fs.readFileSync(path.join(PACKAGE_ROOT, file)))) {
+      plan.push({ file, action: 'unchanged' });
+    } else {
+      const entry = { file, action: 'overwrite' };
+      plan.push(entry);
+      conflicts.push(entry);
+    }
+  }
+
+  if (conflicts.length === 0 || options.force) {
+    return plan;
+  }
+
+  if (options.yes || !process.stdin.isTTY) {
+    fail(`These files already exist and differ (use --force to overwrite):\n  ${conflicts.map(c => c.file).join('\n  ')}`);
+  }
+
+  for (const conflict of conflicts) {
+    const { action } = await prompts({
+      type: 'select',
+      name: 'action',
+      message: `${conflict.file} already exists and differs`,
+      choices: [
+        { title: 'Overwrite', value: 'overwrite' },
+        { title: 'Keep mine', value: 'skip' },
+        { title: 'Abort', value: 'abort' },
+      ],
+      initial: 1,
+    });
+
+    if (!action || action === 'abort') {
+      fail('Cancelled, no files were changed');
+    }
+
+    conflict.action = action;
+  }
+
+  return plan;
+}
+
+// Add missing dependencies at the versions this package uses; existing ones are left alone
+function addDependencies(packageJson, features) {
+  const { dependencies: sourceDependencies } = JSON.parse(
+    fs.readFileSync(path.join(PACKAGE_ROOT, 'package.json'), 'utf-8')
+  );
+  const names = [...new Set(features.flatMap(name => FEATURES[name].dependencies))];
+  const added = [];
+
+  packageJson.dependencies ??= {};
+
+  for (const name of names) {
+    if (packageJson.dependencies[name] || packageJson.devDependencies?.[name]) continue;
+    packageJson.dependencies[name] = sourceDependencies[name];
+    added.push(name);
+  }
+
+  if (added.length > 0) {
+    packageJson.dependencies = Object.fromEntries(
+      Object.entries(packageJson.dependencies).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  return added;
+}
+
+// Append missing variables to .env.example, creating it if needed
+function addEnvVariables(envExamplePath, features) {
+  const names = [...new Set(features.flatMap(name => FEATURES[name].env))];
+  let contents = fs.existsSync(envExamplePath) ? fs.readFileSync(envExamplePath, 'utf-8') : '';
+  const added = [];
+
+  for (const name of names) {
+    if (new RegExp(`^${name}=`, 'm').test(contents)) continue;
+
+    const { comments, value } = ENV_VARIABLES[name];
+    if (contents && !contents.endsWith('\n')) contents += '\n';
+    if (contents) contents += '\n';
+    contents += `${comments.map(comment => `# ${comment}`).join('\n')}\n${name}=${value}\n`;
+    added.push(name);
+  }
+
+  if (added.length > 0) {
+    fs.writeFileSync(envExamplePath, contents);
+  }
+
+  return added;
+}
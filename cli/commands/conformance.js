@@ -0,0 +1,268 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { execFileSync, spawnSync } from 'node:child_process';
+import kleur from 'kleur';
+import { DEFAULT_DEPLOY_TARGET, DEPLOY_TARGETS } from '../deploy-targets.js';
+import { fail, log, setJsonOutput } from '../output.js';
+import { getExecCommand, getInstallCommand, PACKAGE_MANAGERS } from '../package-managers.js';
+import { extractTarball } from '../tar.js';
+import { discoverTemplates, PACKAGE_ROOT } from '../templates.js';
+
+const HELP = `
+Usage: create-mix-tstart conformance [options]
+
+Pack the package as npm would publish it, scaffold every template from the
+tarball into a temporary directory, install it from a local package cache and
+run tsc, biome and vitest in it. For maintainers, before publishing.
+
+Options:
+  -t, --template <name>          Only check this template (repeatable)
+  -p, --package-manager <name>   Package manager: ${PACKAGE_MANAGERS.join(', ')} (default: bun)
+      --deploy <target>          Deployment target: ${Object.keys(DEPLOY_TARGETS).join(', ')}
+                                 (default: ${DEFAULT_DEPLOY_TARGET})
+      --cache-dir <path>         Package cache shared between runs
+                                 (default: node_modules/.cache/create-mix-tstart)
+      --timeout <ms>             Time limit for each step (default: 600000)
+      --keep                     Keep the scaffolded projects for inspection
+      --json                     Print the results as JSON
+  -h, --help                     Show this help message
+`;
+
+const STATUS_ICONS = {
+  pass: kleur.green('✓'),
+  fail: kleur.red('✖'),
+  skip: kleur.gray('-'),
+};
+
+// Environment variable that points each package manager at its cache or store
+const CACHE_ENV = {
+  bun: 'BUN_INSTALL_CACHE_DIR',
+  npm: 'npm_config_cache',
+  pnpm: 'npm_config_store_dir',
+  yarn: 'YARN_CACHE_FOLDER',
+};
+
+// Output lines kept from a failing step
+const OUTPUT_LINES = 20;
+
+export async function conformance(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  setJsonOutput(options.json);
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mix-tstart-conformance-'));
+
+  // Scaffold from what would be published, so files missing from "files" in package.json fail the check
+  const packageDir = packPackage(workDir);
+  const { createProject } = await import(pathToFileURL(path.join(packageDir, 'cli', 'create-project.js')).href);
+
+  const templates = discoverTemplates(packageDir);
+  const selected = options.templates.length > 0
+    ? options.templates.map((name) => {
+      const template = templates.find(t => t.name === name || t.value === name);
+      if (!template) {
+        fs.rmSync(workDir, { recursive: true, force: true });
+        fail(`Unknown template "${name}". Available: ${templates.map(t => t.name).join(', ')}`);
+      }
+      return template;
+    })
+    : templates;
+  const env = { ...process.env, ...getCacheEnv(options.packageManager, options.cacheDir) };
+  const exec = getExecCommand(options.packageManager, true);
+  const steps = [
+    { id: 'install', command: getInstallCommand(options.packageManager) },
+    { id: 'typecheck', command: `${exec} tsc --noEmit` },
+    { id: 'lint', command: `${exec} biome check` },
+    { id: 'test', command: `${exec} vitest run --passWithNoTests` },
+  ];
+
+  log(kleur.bold().cyan(`\n🧪 Checking ${selected.length} template${selected.length === 1 ? '' : 's'} with ${options.packageManager}\n`));
+
+  const results = [];
+
+  try {
+    for (const template of selected) {
+      log(kleur.bold(template.name));
+      results.push(await checkTemplate(createProject, template, path.join(workDir, template.name), steps, env, options));
+      log('');
+    }
+  } finally {
+    if (options.keep) {
+      log(kleur.gray(`Projects kept in ${workDir}\n`));
+    } else {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  const failed = results.filter(result => !result.ok);
+
+  if (failed.length > 0) {
+    log(kleur.red(`✖ ${failed.length} of ${results.length} templates failed: ${failed.map(result => result.template).join(', ')}\n`));
+    process.exitCode = 1;
+  } else {
+    log(kleur.green(`✓ All ${results.length} templates passed\n`));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      ok: failed.length === 0,
+      packageManager: options.packageManager,
+      deployTarget: options.deploy,
+      templates: results,
+    }, null, 2));
+  }
+}
+
+// Run `npm pack` and unpack the tarball, returning the package directory inside it
+function packPackage(workDir) {
+  const packDir = path.join(workDir, '.pack');
+  fs.mkdirSync(packDir);
+
+  try {
+    const [{ filename }] = JSON.parse(execFileSync('npm', ['pack', '--json', '--ignore-scripts', '--pack-destination', packDir], {
+      cwd: PACKAGE_ROOT,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).toString());
+
+    extractTarball(path.join(packDir, filename), packDir);
+  } catch (error) {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    fail(`Could not pack ${PACKAGE_ROOT}: ${error.stderr?.toString().trim() || error.message}`);
+  }
+
+  // The packed CLI loads its dependencies from here, as it would once installed
+  const packageDir = path.join(packDir, 'package');
+  fs.symlinkSync(path.join(PACKAGE_ROOT, 'node_modules'), path.join(packageDir, 'node_modules'), 'dir');
+  return packageDir;
+}
+
+// Scaffold one template, then run each step until one fails
+async function checkTemplate(createProject, template, directory, steps, env, options) {
+  const results = [];
+
+  try {
+    await createProject({
+      directory,
+      template: template.value,
+      packageManager: options.packageManager,
+      deployTarget: options.deploy,
+      install: false,
+      git: false,
+    });
+    results.push({ id: 'scaffold', command: null, status: 'pass', durationMs: 0, output: '' });
+  } catch (error) {
+    results.push({ id: 'scaffold', command: null, status: 'fail', durationMs: 0, output: error.message });
+  }
+
+  for (const step of steps) {
+    if (results.some(result => result.status === 'fail')) {
+      results.push({ id: step.id, command: step.command, status: 'skip', durationMs: 0, output: '' });
+      continue;
+    }
+
+    const started = Date.now();
+    const run = spawnSync(step.command, {
+      cwd: directory,
+      env,
+      shell: true,
+      encoding: 'utf-8',
+      timeout: options.timeout,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+
+    if (run.signal === 'SIGINT') {
+      fail('Conformance run cancelled', 130);
+    }
+
+    const output = `${run.stdout ?? ''}${run.stderr ?? ''}${run.error ? run.error.message : ''}`;
+    results.push({
+      id: step.id,
+      command: step.command,
+      status: run.status === 0 ? 'pass' : 'fail',
+      durationMs: Date.now() - started,
+      output: run.status === 0 ? '' : output.trim().split('\n').slice(-OUTPUT_LINES).join('\n'),
+    });
+  }
+
+  for (const result of results) {
+    const duration = result.durationMs > 0 ? kleur.gray(` (${(result.durationMs / 1000).toFixed(1)}s)`) : '';
+    log(`  ${STATUS_ICONS[result.status]} ${result.id}${duration}`);
+    if (result.status === 'fail' && result.output) {
+      log(kleur.gray(result.output.replace(/^/gm, '      ')));
+    }
+  }
+
+  return {
+    template: template.name,
+    directory,
+    ok: results.every(result => result.status === 'pass'),
+    steps: results,
+  };
+}
+
+function getCacheEnv(packageManager, cacheDir) {
+  const env = { [CACHE_ENV[packageManager]]: path.join(cacheDir, packageManager) };
+
+  // npm and pnpm otherwise revalidate cached packages against the registry
+  if (packageManager === 'npm' || packageManager === 'pnpm') {
+    env.npm_config_prefer_offline = 'true';
+  }
+
+  return env;
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        template: { type: 'string', short: 't', multiple: true },
+        'package-manager': { type: 'string', short: 'p', default: 'bun' },
+        deploy: { type: 'string', default: DEFAULT_DEPLOY_TARGET },
+        'cache-dir': { type: 'string' },
+        timeout: { type: 'string', default: '600000' },
+        keep: { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values } = parsed;
+  const timeout = Number(values.timeout);
+
+  if (!PACKAGE_MANAGERS.includes(values['package-manager'])) {
+    fail(`Unknown package manager "${values['package-manager']}". Available: ${PACKAGE_MANAGERS.join(', ')}`);
+  }
+
+  if (!Object.hasOwn(DEPLOY_TARGETS, values.deploy)) {
+    fail(`Unknown deployment target "${values.deploy}". Available: ${Object.keys(DEPLOY_TARGETS).join(', ')}`);
+  }
+
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    fail(`Invalid timeout "${values.timeout}", expected a positive number of milliseconds`);
+  }
+
+  return {
+    templates: values.template ?? [],
+    packageManager: values['package-manager'],
+    deploy: values.deploy,
+    cacheDir: path.resolve(values['cache-dir'] ?? path.join(PACKAGE_ROOT, 'node_modules', '.cache', 'create-mix-tstart')),
+    timeout,
+    keep: Boolean(values.keep),
+    json: Boolean(values.json),
+    help: Boolean(values.help),
+  };
+}
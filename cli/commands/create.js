@@ -0,0 +1,694 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import prompts from 'prompts';
+import kleur from 'kleur';
+import {
+  checkTargetDirectory,
+  CONFLICT_MODES,
+  createProject,
+  getNextSteps,
+  renamedPath,
+  validateOptions,
+} from '../create-project.js';
+import { DEFAULT_DEPLOY_TARGET, DEPLOY_TARGETS } from '../deploy-targets.js';
+import { diffLines, withContext } from '../diff.js';
+import { readEnvVariables, renderEnvFile } from '../env.js';
+import { CancelledError, FileConflictError } from '../errors.js';
+import { probeMixServer } from '../mix-server.js';
+import { fail, log, setJsonOutput } from '../output.js';
+import {
+  detectInvokingPackageManager,
+  getInstallCommand,
+  PACKAGE_MANAGERS,
+} from '../package-managers.js';
+import {
+  buildProject,
+  checkEngines,
+  CLI_VERSION,
+  DEFAULT_MIX_SERVER_URL,
+  discoverTemplates,
+  PROJECT_RECORD_FILE,
+} from '../templates.js';
+
+// How long the Mix server gets to answer the health check after .env is set up
+const PROBE_TIMEOUT_MS = 3000;
+
+const HELP = `
+Usage: create-mix-tstart [project-name] [options]
+       create-mix-tstart add <feature...> [options]
+       create-mix-tstart generate <kind> <name> [options]
+       create-mix-tstart doctor [options]
+       create-mix-tstart upgrade [options]
+       create-mix-tstart conformance [options]
+
+Options:
+  -t, --template <name>          Template to use: base, an example name, or a path
+                                 to a template directory or .tgz
+  -p, --package-manager <name>   Package manager: ${PACKAGE_MANAGERS.join(', ')}
+      --deploy <target>          Deployment target: ${Object.keys(DEPLOY_TARGETS).join(', ')}
+      --mix-server-url <url>     Mix server URL written to .env.example
+                                 (default: ${DEFAULT_MIX_SERVER_URL})
+      --no-install               Skip installing dependencies
+      --no-env                   Skip the offer to create .env
+      --no-git                   Skip git init and the initial commit
+  -y, --yes                      Use defaults instead of prompting
+  -f, --force                    Replace the target directory if it exists
+      --on-conflict <mode>       Existing files in a non-empty directory:
+                                 ask (default), ${CONFLICT_MODES.join(', ')}
+      --keep-on-failure          Leave partial output in place when scaffolding fails
+      --dry-run                  Show what would be created without writing anything
+      --json                     Print a JSON summary of the created project;
+                                 implies --yes
+  -h, --help                     Show this help message
+`;
+
+export async function create(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  setJsonOutput(options.json);
+
+  log(kleur.bold().cyan('\n🚀 Create Mix TanStack Start App\n'));
+
+  const templates = discoverTemplates();
+
+  // "ask" becomes a prompt, or an error without a terminal; other modes go to createProject as they are
+  const onConflict = getConflictHandler(options);
+
+  // Validate flags before prompting so automation fails fast
+  const validated = validateOptions({
+    template: options.template,
+    packageManager: options.packageManager,
+    deployTarget: options.deploy,
+    mixServerUrl: options.mixServerUrl,
+    onConflict,
+  });
+
+  let template = options.template ? validated.template : undefined;
+  let packageManager = options.packageManager;
+  let deployTarget = options.deploy;
+  let git = options.git;
+
+  // Get project name from args or prompt
+  let projectName = options.projectName;
+
+  if (!projectName && options.yes) {
+    projectName = 'my-mix-app';
+  }
+
+  if (!projectName) {
+    const response = await prompts({
+      type: 'text',
+      name: 'projectName',
+      message: 'Project name:',
+      initial: 'my-mix-app',
+      validate: (value) => (value ? true : 'Project name is required'),
+    });
+
+    if (!response.projectName) {
+      fail('Project creation cancelled');
+    }
+
+    projectName = response.projectName;
+  }
+
+  // "." scaffolds into the current directory, named after it
+  const appName = path.basename(path.resolve(projectName));
+
+  const { exists: targetExists, merge } = checkTargetDirectory(projectName, { force: options.force });
+
+  if (targetExists && options.force) {
+    log(kleur.yellow(`⚠ Directory "${projectName}" will be replaced`));
+  } else if (merge && fs.readdirSync(projectName).length > 0) {
+    log(kleur.yellow(`⚠ Directory "${projectName}" is not empty, the template will be added to it`));
+  }
+
+  if (!template && options.yes) {
+    template = templates[0];
+  }
+
+  // Ask for template
+  if (!template) {
+    const response = await prompts({
+      type: 'select',
+      name: 'template',
+      message: 'Choose a template:',
+      choices: templates.map(t => ({
+        title: t.value === 'base' ? `${t.manifest.title} (minimal starter)` : `${t.manifest.title} (example)`,
+        description: t.manifest.description,
+        value: t,
+      })),
+      initial: 0,
+    });
+
+    if (!response.template) {
+      fail('Template selection cancelled');
+    }
+
+    template = response.template;
+  }
+
+  // Default to whatever ran the CLI, e.g. pnpm for `pnpm create mix-tstart`
+  const detectedPackageManager = detectInvokingPackageManager();
+  const defaultPackageManager = detectedPackageManager ?? 'bun';
+
+  if (!packageManager && options.yes) {
+    packageManager = defaultPackageManager;
+  }
+
+  // Ask for package manager
+  if (!packageManager) {
+    const response = await prompts({
+      type: 'select',
+      name: 'packageManager',
+      message: 'Package manager:',
+      choices: PACKAGE_MANAGERS.map(pm => ({
+        title: pm === detectedPackageManager ? `${pm} (detected)` : pm === 'bun' ? 'bun (recommended)' : pm,
+        value: pm,
+      })),
+      initial: PACKAGE_MANAGERS.indexOf(defaultPackageManager),
+    });
+
+    if (!response.packageManager) {
+      fail('Package manager selection cancelled');
+    }
+
+    packageManager = response.packageManager;
+  }
+
+  if (!deployTarget && options.yes) {
+    deployTarget = DEFAULT_DEPLOY_TARGET;
+  }
+
+  // Ask where the app will run, which decides the server adapter
+  if (!deployTarget) {
+    const response = await prompts({
+      type: 'select',
+      name: 'deployTarget',
+      message: 'Deployment target:',
+      choices: Object.entries(DEPLOY_TARGETS).map(([value, target]) => ({
+        title: target.title,
+        description: target.description,
+        value,
+      })),
+      initial: 0,
+    });
+
+    if (!response.deployTarget) {
+      fail('Deployment target selection cancelled');
+    }
+
+    deployTarget = response.deployTarget;
+  }
+
+  if (git === undefined && options.yes) {
+    git = true;
+  }
+
+  if (git === undefined) {
+    const response = await prompts({
+      type: 'confirm',
+      name: 'git',
+      message: 'Initialize a git repository?',
+      initial: true,
+    });
+
+    if (response.git === undefined) {
+      fail('Project creation cancelled');
+    }
+
+    git = response.git;
+  }
+
+  const variables = { projectName: appName, packageManager, mixServerUrl: options.mixServerUrl, deployTarget };
+
+  if (options.dryRun) {
+    previewProject(template, projectName, variables, { ...options, git }, { merge });
+    return;
+  }
+
+  log(kleur.cyan(`\n📦 Creating project in ${kleur.bold(projectName === '.' ? 'the current directory' : projectName)}...\n`));
+
+  // Ctrl-C cancels: createProject rolls back and rejects with a CancelledError
+  const cancellation = new AbortController();
+  const cancel = () => cancellation.abort();
+  process.on('SIGINT', cancel);
+  process.on('SIGTERM', cancel);
+
+  let result;
+  try {
+    result = await createProject({
+      directory: projectName,
+      projectName: appName,
+      template: template.value,
+      packageManager,
+      deployTarget,
+      mixServerUrl: options.mixServerUrl,
+      install: options.install,
+      git,
+      force: options.force,
+      keepOnFailure: options.keepOnFailure,
+      onConflict,
+      onProgress: reportProgress,
+      signal: cancellation.signal,
+      // Keep child process output off stdout in --json mode
+      stdio: options.json ? ['ignore', process.stderr, process.stderr] : 'inherit',
+    });
+  } catch (error) {
+    if (error instanceof FileConflictError) {
+      fail(`${error.message}\nUse --on-conflict overwrite, skip or rename.`);
+    }
+    throw error;
+  } finally {
+    process.off('SIGINT', cancel);
+    process.off('SIGTERM', cancel);
+  }
+
+  // Success message
+  log(kleur.bold().green('🎉 Project created successfully!\n'));
+
+  let nextSteps = result.nextSteps;
+
+  if (options.env && !options.yes && process.stdin.isTTY && await setupEnvFile(result.directory, template.manifest)) {
+    nextSteps = getNextSteps(template.manifest, projectName, packageManager, result.installed);
+  }
+
+  log(kleur.cyan('Next steps:\n'));
+
+  for (const step of nextSteps) {
+    log(kleur.white(`  ${step}`));
+  }
+
+  log('');
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      ...result,
+      nextSteps: result.nextSteps.filter(step => !step.startsWith('#')),
+    }, null, 2));
+  }
+}
+
+/**
+ * Offer to create .env from .env.example, asking for each variable with the
+ * comments above it as help, then offer to check that the Mix server is up.
+ * Returns whether .env was written.
+ */
+async function setupEnvFile(directory, manifest) {
+  const examplePath = path.join(directory, '.env.example');
+  const envPath = path.join(directory, '.env');
+  const variables = readEnvVariables(examplePath);
+
+  if (variables.length === 0 || fs.existsSync(envPath)) {
+    return false;
+  }
+
+  const { create } = await prompts({
+    type: 'confirm',
+    name: 'create',
+    message: 'Create .env now?',
+    initial: true,
+  });
+
+  if (!create) {
+    log('');
+    return false;
+  }
+
+  const values = {};
+
+  for (const variable of variables) {
+    const declared = manifest.env.find(v => v.name === variable.name);
+    const help = variable.comments.length > 0 ? variable.comments : [declared?.description].filter(Boolean);
+
+    log('');
+    for (const line of help) {
+      log(kleur.gray(`  ${line}`));
+    }
+
+    const response = await prompts({
+      type: 'text',
+      name: 'value',
+      message: variable.name,
+      initial: variable.value,
+      validate: value => validateEnvValue(variable, value, Boolean(declared?.required)),
+    });
+
+    // The project already exists, so a cancelled prompt only skips .env
+    if (response.value === undefined) {
+      log(kleur.yellow('\n⚠ .env was not created\n'));
+      return false;
+    }
+
+    values[variable.name] = response.value.trim();
+  }
+
+  fs.writeFileSync(envPath, renderEnvFile(fs.readFileSync(examplePath, 'utf-8'), values));
+  log(kleur.green('\n✓ .env created\n'));
+
+  if (values.MIX_SERVER_URL) {
+    await checkMixServer(values.MIX_SERVER_URL);
+  }
+
+  return true;
+}
+
+function validateEnvValue(variable, value, required) {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return required ? `${variable.name} is required` : true;
+  }
+
+  // Treat FOO_URL and anything whose example is a URL as a URL
+  const isUrl = variable.name.endsWith('_URL') || /^https?:\/\//.test(variable.value);
+  if (isUrl && !(URL.canParse(trimmed) && /^https?:$/.test(new URL(trimmed).protocol))) {
+    return 'Enter a full http:// or https:// URL';
+  }
+
+  return true;
+}
+
+// A server that is down is only a warning: it may just not be started yet
+async function checkMixServer(serverUrl) {
+  const { probe } = await prompts({
+    type: 'confirm',
+    name: 'probe',
+    message: `Check that the Mix server at ${serverUrl} is reachable?`,
+    initial: true,
+  });
+
+  if (!probe) {
+    log('');
+    return;
+  }
+
+  const result = await probeMixServer(serverUrl, PROBE_TIMEOUT_MS);
+
+  if (!result.reachable) {
+    log(kleur.yellow(`\n⚠ ${serverUrl} is unreachable (${result.error}). Start the Mix server before running the app.\n`));
+  } else if (!result.ok) {
+    log(kleur.yellow(`\n⚠ ${serverUrl} answered ${result.status} on /health. Check the Mix server logs.\n`));
+  } else {
+    log(kleur.green(`\n✓ ${serverUrl} is up (${result.latencyMs}ms)\n`));
+  }
+}
+
+function reportProgress(event) {
+  switch (event.type) {
+    case 'copied':
+      log(kleur.green('✓ Template copied\n'));
+      break;
+    case 'install':
+      log(kleur.cyan('📥 Installing dependencies...\n'));
+      break;
+    case 'installed':
+      log(kleur.green('\n✓ Dependencies installed\n'));
+      break;
+    case 'install-failed':
+      log(kleur.yellow('\n⚠ Dependency installation failed. You can install them manually.\n'));
+      break;
+    case 'post-install':
+      log(kleur.cyan('🔧 Running post-install steps...\n'));
+      break;
+    case 'post-install-failed':
+      log(kleur.yellow(`\n⚠ Post-install step failed: ${event.command}\n`));
+      break;
+    case 'git':
+      if (event.status === 'committed') {
+        log(kleur.green('✓ Git repository initialized with a first commit\n'));
+      } else if (event.status === 'initialized') {
+        log(kleur.yellow(`⚠ Git repository initialized without a commit: ${event.reason}\n`));
+      } else {
+        log(kleur.yellow(`⚠ Skipped git init: ${event.reason}\n`));
+      }
+      break;
+    case 'rolled-back':
+      log(kleur.yellow('\n⚠ Rolled back, no files were left behind'));
+      break;
+    case 'kept-partial':
+      log(kleur.yellow(`\n⚠ Keeping partial project at ${event.directory}`));
+      if (event.backupDir) {
+        log(kleur.yellow(`⚠ Replaced files were moved to ${event.backupDir}`));
+      }
+      break;
+  }
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        template: { type: 'string', short: 't' },
+        'package-manager': { type: 'string', short: 'p' },
+        deploy: { type: 'string' },
+        'mix-server-url': { type: 'string' },
+        'no-install': { type: 'boolean' },
+        'no-env': { type: 'boolean' },
+        'no-git': { type: 'boolean' },
+        yes: { type: 'boolean', short: 'y' },
+        force: { type: 'boolean', short: 'f' },
+        'on-conflict': { type: 'string' },
+        'keep-on-failure': { type: 'boolean' },
+        'dry-run': { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length > 1) {
+    fail(`Unexpected arguments: ${positionals.slice(1).join(' ')}`);
+  }
+
+  return {
+    projectName: positionals[0],
+    template: values.template,
+    packageManager: values['package-manager'],
+    deploy: values.deploy,
+    mixServerUrl: values['mix-server-url'] ?? DEFAULT_MIX_SERVER_URL,
+    install: !values['no-install'],
+    env: !values['no-env'],
+    // Asked for unless --no-git or --yes is given
+    git: values['no-git'] ? false : undefined,
+    // --json output is read by scripts, so it never waits on a prompt
+    yes: Boolean(values.yes || values.json),
+    force: Boolean(values.force),
+    onConflict: values['on-conflict'] ?? 'ask',
+    keepOnFailure: Boolean(values['keep-on-failure']),
+    dryRun: Boolean(values['dry-run']),
+    json: Boolean(values.json),
+    help: Boolean(values.help),
+  };
+}
+
+/**
+ * Print what a real run would write: every file with its size, how each
+ * existing file would be handled, the package.json rewrite and the install
+ * command. Sets a non-zero exit code when the real run would fail.
+ */
+function previewProject(template, projectName, variables, options, { merge }) {
+  const files = buildProject(template, variables);
+  files.set(PROJECT_RECORD_FILE, {
+    contents: Buffer.from(JSON.stringify({ template: template.name, version: CLI_VERSION, variables }, null, 2) + '\n'),
+  });
+
+  const problems = checkEngines(template.manifest, variables.packageManager).map(problem => `Template "${template.name}" requires ${problem}`);
+  const entries = [...files.keys()].sort().map((file) => {
+    const entry = { path: file, size: files.get(file).contents.length, status: 'create' };
+    const existingPath = path.join(projectName, file);
+
+    if (merge && fs.existsSync(existingPath)) {
+      const identical = fs.statSync(existingPath).isFile()
+        && fs.readFileSync(existingPath).equals(files.get(file).contents);
+      entry.status = identical ? 'unchanged' : options.onConflict;
+    }
+
+    return entry;
+  });
+
+  // Without a terminal "ask" fails like "error" does
+  const collisions = entries.filter(entry => entry.status === 'error'
+    || (entry.status === 'ask' && (options.yes || !process.stdin.isTTY)));
+  if (collisions.length > 0) {
+    problems.push(`These files already exist, use --on-conflict overwrite, skip or rename:\n    ${collisions.map(entry => entry.path).join('\n    ')}`);
+  }
+
+  const templatePackageJson = path.join(template.dir, 'package.json');
+  const packageJsonDiff = files.has('package.json') && fs.existsSync(templatePackageJson)
+    ? withContext(diffLines(fs.readFileSync(templatePackageJson, 'utf-8'), files.get('package.json').contents.toString('utf-8')))
+    : [];
+
+  const installCommand = options.install ? getInstallCommand(variables.packageManager) : null;
+  const postInstall = options.install ? template.manifest.postInstall : [];
+
+  log(kleur.cyan('\n🔍 Dry run, nothing will be written\n'));
+
+  log(kleur.bold(projectName === '.' ? './' : `${projectName}/`));
+  for (const line of formatTree(entries)) {
+    log(line);
+  }
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  log(kleur.dim(`\n${entries.length} files, ${formatSize(totalSize)}\n`));
+
+  if (packageJsonDiff.length > 0) {
+    log(kleur.bold('package.json changes:'));
+    for (const change of packageJsonDiff) {
+      if (change === null) {
+        log(kleur.dim('  ...'));
+      } else {
+        const color = change.type === '+' ? kleur.green : change.type === '-' ? kleur.red : kleur.dim;
+        log(color(`${change.type} ${change.line}`));
+      }
+    }
+    log('');
+  }
+
+  log(kleur.bold('Install:'));
+  log(installCommand ? `  ${installCommand}` : kleur.dim('  skipped (--no-install)'));
+  for (const command of postInstall) {
+    log(`  ${command}`);
+  }
+  log('');
+
+  log(kleur.bold('Git:'));
+  log(options.git ? '  git init and an initial commit' : kleur.dim('  skipped (--no-git)'));
+  log('');
+
+  if (problems.length > 0) {
+    log(kleur.red(`✖ A real run would fail:\n  ${problems.join('\n  ')}\n`));
+    process.exitCode = 1;
+  } else {
+    log(kleur.green('✓ A real run would succeed\n'));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      dryRun: true,
+      wouldSucceed: problems.length === 0,
+      problems,
+      projectName: variables.projectName,
+      directory: path.resolve(projectName),
+      template: template.name,
+      packageManager: variables.packageManager,
+      deployTarget: variables.deployTarget,
+      files: entries,
+      packageJsonDiff: packageJsonDiff.filter(Boolean).map(change => `${change.type}${change.line}`),
+      installCommand,
+      postInstall,
+      git: options.git,
+    }, null, 2));
+  }
+}
+
+// Render sorted entries as an indented tree, with sizes and any non-default status
+function formatTree(entries) {
+  const root = new Map();
+
+  for (const entry of entries) {
+    const parts = entry.path.split('/');
+    let node = root;
+    for (const part of parts.slice(0, -1)) {
+      if (!node.has(part)) node.set(part, new Map());
+      node = node.get(part);
+    }
+    node.set(parts[parts.length - 1], entry);
+  }
+
+  const lines = [];
+  const walk = (node, indent) => {
+    const names = [...node.keys()];
+    names.forEach((name, index) => {
+      const last = index === names.length - 1;
+      const child = node.get(name);
+      const branch = kleur.dim(`${indent}${last ? '└── ' : '├── '}`);
+
+      if (child instanceof Map) {
+        lines.push(`${branch}${kleur.bold(`${name}/`)}`);
+        walk(child, `${indent}${last ? '    ' : '│   '}`);
+      } else {
+        const status = child.status === 'create' ? '' : ` ${kleur.yellow(`[${child.status}]`)}`;
+        lines.push(`${branch}${name} ${kleur.dim(formatSize(child.size))}${status}`);
+      }
+    });
+  };
+
+  walk(root, '');
+  return lines;
+}
+
+function formatSize(bytes) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Turn --on-conflict into what `createProject()` expects. "ask" prompts once
+ * for all colliding files or for each one, and needs a terminal. Other modes
+ * are passed on, and createProject rejects unknown ones.
+ */
+function getConflictHandler(options) {
+  if (options.onConflict !== 'ask') {
+    return options.onConflict;
+  }
+
+  if (options.yes || !process.stdin.isTTY) {
+    return 'error';
+  }
+
+  return async (collisions) => {
+    log(kleur.yellow(`\nThese files already exist:\n  ${collisions.join('\n  ')}\n`));
+
+    const response = await prompts({
+      type: 'select',
+      name: 'mode',
+      message: 'How should existing files be handled?',
+      choices: [
+        { title: 'Decide for each file', value: 'each' },
+        { title: 'Overwrite all', value: 'overwrite' },
+        { title: 'Keep mine, skip all', value: 'skip' },
+        { title: 'Keep mine, add the template\'s copy under a new name', value: 'rename' },
+      ],
+      initial: 0,
+    });
+
+    if (!response.mode) throw new CancelledError();
+    if (response.mode !== 'each') return response.mode;
+
+    const actions = new Map();
+
+    for (const file of collisions) {
+      const response = await prompts({
+        type: 'select',
+        name: 'action',
+        message: `${file} already exists`,
+        choices: [
+          { title: 'Overwrite', value: 'overwrite' },
+          { title: 'Keep mine', value: 'skip' },
+          { title: `Keep mine, add the template's copy as ${renamedPath(file)}`, value: 'rename' },
+        ],
+        initial: 1,
+      });
+
+      if (!response.action) throw new CancelledError();
+      actions.set(file, response.action);
+    }
+
+    return actions;
+  };
+}
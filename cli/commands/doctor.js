@@ -0,0 +1,344 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import kleur from 'kleur';
+import { readEnvFile } from '../env.js';
+import { probeMixServer } from '../mix-server.js';
+import { fail, log, setJsonOutput } from '../output.js';
+import { detectPackageManager, getDevCommand, getInstallCommand } from '../package-managers.js';
+import { checkEngines, PACKAGE_ROOT, readManifest } from '../templates.js';
+
+const HELP = `
+Usage: create-mix-tstart doctor [options]
+
+Diagnose common problems in a scaffolded Mix project.
+
+Options:
+  -d, --dir <path>               Project directory (default: current directory)
+      --offline                  Skip probing the Mix server
+      --timeout <ms>             Mix server probe timeout (default: 3000)
+      --json                     Print the report as JSON
+  -h, --help                     Show this help message
+`;
+
+const STATUS_ICONS = {
+  pass: kleur.green('✓'),
+  warn: kleur.yellow('⚠'),
+  fail: kleur.red('✖'),
+  skip: kleur.gray('-'),
+};
+
+export async function doctor(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  setJsonOutput(options.json);
+
+  const projectDir = path.resolve(options.dir);
+  const packageJsonPath = path.join(projectDir, 'package.json');
+
+  if (!fs.existsSync(packageJsonPath)) {
+    fail(`No package.json found in ${projectDir}`);
+  }
+
+  log(kleur.bold().cyan(`\n🩺 Checking ${projectDir}\n`));
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const packageManager = detectPackageManager(projectDir) ?? 'npm';
+
+  const serverUrlCheck = checkMixServerUrl(projectDir);
+  const checks = [
+    checkEngineVersions(packageJson, packageManager),
+    checkDependencies(projectDir, packageManager),
+    serverUrlCheck,
+    checkRouteTree(projectDir, packageManager),
+    checkShoremanPid(projectDir),
+    await checkMixServer(serverUrlCheck.value, options),
+  ];
+
+  for (const check of checks) {
+    log(`${STATUS_ICONS[check.status]} ${kleur.bold(check.title)}: ${check.message}`);
+    if (check.fix) {
+      log(kleur.gray(`    → ${check.fix}`));
+    }
+  }
+
+  const failed = checks.filter(check => check.status === 'fail').length;
+  const warned = checks.filter(check => check.status === 'warn').length;
+
+  log('');
+  if (failed > 0) {
+    log(kleur.red(`✖ ${failed} problem${failed === 1 ? '' : 's'} found`));
+  } else if (warned > 0) {
+    log(kleur.yellow(`⚠ ${warned} warning${warned === 1 ? '' : 's'}`));
+  } else {
+    log(kleur.green('✓ Everything looks good'));
+  }
+  log('');
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      directory: projectDir,
+      ok: failed === 0,
+      checks: checks.map(({ id, title, status, message, fix }) => ({ id, title, status, message, fix: fix ?? null })),
+    }, null, 2));
+  }
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        dir: { type: 'string', short: 'd', default: '.' },
+        offline: { type: 'boolean' },
+        timeout: { type: 'string', default: '3000' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values } = parsed;
+  const timeout = Number(values.timeout);
+
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    fail(`Invalid timeout "${values.timeout}", expected a positive number of milliseconds`);
+  }
+
+  return {
+    dir: values.dir,
+    offline: Boolean(values.offline),
+    timeout,
+    json: Boolean(values.json),
+    help: Boolean(values.help),
+  };
+}
+
+// The project's own "engines" win over the base template's minimums
+function checkEngineVersions(packageJson, packageManager) {
+  const { engines: templateEngines } = readManifest(PACKAGE_ROOT, 'base');
+  const engines = {
+    node: packageJson.engines?.node ?? templateEngines.node,
+    bun: packageJson.engines?.bun ?? templateEngines.bun,
+  };
+  const problems = checkEngines({ engines }, packageManager);
+  const title = 'Node/Bun versions';
+
+  if (problems.length > 0) {
+    return {
+      id: 'engines',
+      title,
+      status: 'fail',
+      message: `requires ${problems.join(', ')}`,
+      fix: 'Upgrade Node.js (and Bun if you use it) to the required version',
+    };
+  }
+
+  return { id: 'engines', title, status: 'pass', message: `Node ${process.versions.node}` };
+}
+
+function checkDependencies(projectDir, packageManager) {
+  const title = 'Dependencies';
+
+  if (!fs.existsSync(path.join(projectDir, 'node_modules'))) {
+    return {
+      id: 'dependencies',
+      title,
+      status: 'fail',
+      message: 'node_modules is missing',
+      fix: `Run ${getInstallCommand(packageManager)}`,
+    };
+  }
+
+  return { id: 'dependencies', title, status: 'pass', message: 'installed' };
+}
+
+/**
+ * `src/lib/mix-config.ts` rejects a missing or non-http(s) server URL, which
+ * fails every request to the Mix server. Looks where loadMixConfig does: the
+ * environment (which Vite fills from .env), then mix.config.json or the file
+ * named by MIX_CONFIG_FILE.
+ */
+function checkMixServerUrl(projectDir) {
+  const title = 'MIX_SERVER_URL';
+  const failed = (message, fix) => ({ id: 'mix-server-url', title, status: 'fail', message, fix });
+  const envFile = readEnvFile(path.join(projectDir, '.env'));
+  const env = (name) => process.env[name] || envFile[name];
+  const hasEnvFile = fs.existsSync(path.join(projectDir, '.env'));
+
+  let value = env('MIX_SERVER_URL');
+  let source = process.env.MIX_SERVER_URL ? 'environment' : '.env';
+
+  if (!value) {
+    const configFile = env('MIX_CONFIG_FILE') || 'mix.config.json';
+    const configPath = path.resolve(projectDir, configFile);
+
+    if (fs.existsSync(configPath)) {
+      let config;
+      try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      } catch (error) {
+        return failed(`${configFile} is not valid JSON: ${error.message}`, `Fix the JSON in ${configFile}`);
+      }
+      if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        return failed(`${configFile} does not contain a JSON object`, `Make ${configFile} an object such as { "serverUrl": "http://localhost:8088" }`);
+      }
+      value = config.serverUrl;
+      source = configFile;
+    } else if (env('MIX_CONFIG_FILE')) {
+      return failed(`MIX_CONFIG_FILE points at ${configFile}, which does not exist`, 'Create the file or unset MIX_CONFIG_FILE');
+    }
+  }
+
+  if (!value) {
+    return failed(
+      'not set, so src/lib/mix-config.ts rejects the configuration',
+      hasEnvFile
+        ? 'Add MIX_SERVER_URL=<url of your Mix server> to .env, or set "serverUrl" in mix.config.json'
+        : 'Run cp .env.example .env and set MIX_SERVER_URL, or set "serverUrl" in mix.config.json',
+    );
+  }
+
+  // The same rule as mixConfigSchema: a full http:// or https:// URL
+  if (typeof value !== 'string' || !URL.canParse(value) || !/^https?:$/.test(new URL(value).protocol)) {
+    return failed(
+      `${JSON.stringify(value)} from ${source} is not an http:// or https:// URL`,
+      'Set it to a full URL such as http://localhost:8088',
+    );
+  }
+
+  return { id: 'mix-server-url', title, status: 'pass', message: `${value} (${source})`, value };
+}
+
+/**
+ * TanStack Router generates src/routeTree.gen.ts on dev/build. A missing file
+ * breaks type-checking, and one that does not import every route is stale.
+ */
+function checkRouteTree(projectDir, packageManager) {
+  const title = 'Route tree';
+  const routesDir = path.join(projectDir, 'src', 'routes');
+  const routeTreePath = path.join(projectDir, 'src', 'routeTree.gen.ts');
+  const fix = `Run ${getDevCommand(packageManager)} once to regenerate src/routeTree.gen.ts`;
+
+  if (!fs.existsSync(routesDir)) {
+    return { id: 'route-tree', title, status: 'skip', message: 'no src/routes directory' };
+  }
+
+  if (!fs.existsSync(routeTreePath)) {
+    return { id: 'route-tree', title, status: 'fail', message: 'src/routeTree.gen.ts is missing', fix };
+  }
+
+  const routeTree = fs.readFileSync(routeTreePath, 'utf-8');
+  const missing = listRouteFiles(routesDir)
+    .map(file => `./routes/${file.replace(/\.tsx?$/, '')}`)
+    .filter(importPath => !routeTree.includes(`'${importPath}'`));
+
+  if (missing.length > 0) {
+    return {
+      id: 'route-tree',
+      title,
+      status: 'warn',
+      message: `out of date, missing ${missing.map(p => p.replace('./routes/', '')).join(', ')}`,
+      fix,
+    };
+  }
+
+  return { id: 'route-tree', title, status: 'pass', message: 'up to date' };
+}
+
+function listRouteFiles(dir, prefix = '') {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      return listRouteFiles(path.join(dir, entry.name), `${relativePath}/`);
+    }
+    // Router ignores files starting with "-" and test files
+    if (!/\.tsx?$/.test(entry.name) || entry.name.startsWith('-') || /\.test\.tsx?$/.test(entry.name)) {
+      return [];
+    }
+    return [relativePath];
+  });
+}
+
+// A .shoreman.pid left by a crashed `make dev` blocks the next start once its pid is reused
+function checkShoremanPid(projectDir) {
+  const title = 'Dev server lock';
+  const pidPath = path.join(projectDir, '.shoreman.pid');
+
+  if (!fs.existsSync(pidPath)) {
+    return { id: 'shoreman-pid', title, status: 'pass', message: 'no .shoreman.pid' };
+  }
+
+  const pid = Number.parseInt(fs.readFileSync(pidPath, 'utf-8').trim(), 10);
+
+  if (Number.isInteger(pid) && isProcessRunning(pid)) {
+    return { id: 'shoreman-pid', title, status: 'pass', message: `dev server running (pid ${pid})` };
+  }
+
+  return {
+    id: 'shoreman-pid',
+    title,
+    status: 'warn',
+    message: `.shoreman.pid is stale${Number.isInteger(pid) ? ` (pid ${pid} is not running)` : ''}`,
+    fix: 'Run rm .shoreman.pid',
+  };
+}
+
+function isProcessRunning(pid) {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
+async function checkMixServer(serverUrl, options) {
+  const title = 'Mix server';
+
+  if (options.offline) {
+    return { id: 'mix-server', title, status: 'skip', message: 'skipped (--offline)' };
+  }
+
+  if (!serverUrl) {
+    return { id: 'mix-server', title, status: 'skip', message: 'skipped, MIX_SERVER_URL is not set' };
+  }
+
+  const result = await probeMixServer(serverUrl, options.timeout);
+
+  if (!result.reachable) {
+    return {
+      id: 'mix-server',
+      title,
+      status: 'fail',
+      message: `${serverUrl} is unreachable (${result.error})`,
+      fix: 'Start the Mix server or point MIX_SERVER_URL at a running one',
+    };
+  }
+
+  if (!result.ok) {
+    return {
+      id: 'mix-server',
+      title,
+      status: 'warn',
+      message: `${serverUrl} answered ${result.status} on /health`,
+      fix: 'Check the Mix server logs',
+    };
+  }
+
+  return { id: 'mix-server', title, status: 'pass', message: `${serverUrl} is up (${result.latencyMs}ms)` };
+}
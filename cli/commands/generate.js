@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import kleur from 'kleur';
+import { FEATURES } from '../features.js';
+import { GENERATORS } from '../generators.js';
+import { fail, log } from '../output.js';
+
+const HELP = `
+Usage: create-mix-tstart generate <kind> <name> [options]
+
+Generate TanStack Start source files and a vitest test for them.
+
+Kinds:
+${Object.entries(GENERATORS).map(([name, generator]) => `  ${name.padEnd(31)}${generator.description}`).join('\n')}
+
+Options:
+  -d, --dir <path>               Project directory (default: current directory)
+  -f, --force                    Overwrite files that already exist
+      --method <method>          HTTP method for server-fn: GET or POST (default: POST)
+      --no-test                  Skip the test file
+  -h, --help                     Show this help message
+
+Examples:
+  create-mix-tstart generate route reports/$id
+  create-mix-tstart generate api-route health
+  create-mix-tstart generate server-fn getReport --method GET
+  create-mix-tstart generate mix-page analyze
+`;
+
+const METHODS = ['GET', 'POST'];
+
+export async function generate(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const available = Object.keys(GENERATORS);
+
+  if (!options.kind || !options.name) {
+    fail(`Usage: create-mix-tstart generate <kind> <name>. Kinds: ${available.join(', ')}`);
+  }
+
+  if (!Object.hasOwn(GENERATORS, options.kind)) {
+    fail(`Unknown kind "${options.kind}". Available: ${available.join(', ')}`);
+  }
+
+  if (!METHODS.includes(options.method)) {
+    fail(`Unknown method "${options.method}". Available: ${METHODS.join(', ')}`);
+  }
+
+  const projectDir = path.resolve(options.dir);
+  const packageJsonPath = path.join(projectDir, 'package.json');
+
+  if (!fs.existsSync(packageJsonPath)) {
+    fail(`No package.json found in ${projectDir}`);
+  }
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const installed = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  if (!installed['@tanstack/react-start']) {
+    fail(`${projectDir} is not a TanStack Start app (no @tanstack/react-start dependency)`);
+  }
+
+  let generated;
+  try {
+    generated = GENERATORS[options.kind].generate(options.name, { method: options.method });
+  } catch (error) {
+    fail(error.message);
+  }
+
+  // The test is always the last file a generator returns
+  const files = options.test ? generated.files : generated.files.slice(0, -1);
+  const existing = files.filter(file => fs.existsSync(path.join(projectDir, file.path)));
+
+  if (existing.length > 0 && !options.force) {
+    fail(`These files already exist (use --force to overwrite):\n  ${existing.map(file => file.path).join('\n  ')}`);
+  }
+
+  log(kleur.bold().cyan(`\n🛠  Generating ${options.kind} ${options.name}\n`));
+
+  for (const file of files) {
+    const destPath = path.join(projectDir, file.path);
+    const label = existing.includes(file) ? kleur.yellow('overwrite') : kleur.green('create   ');
+
+    fs.mkdirSync(path.dirname(destPath), { recursive: true });
+    fs.writeFileSync(destPath, file.contents);
+    log(`  ${label} ${file.path}`);
+  }
+
+  log(kleur.bold().green('\n✓ Files generated\n'));
+
+  const missing = generated.features.filter(feature =>
+    FEATURES[feature].files.some(file => !fs.existsSync(path.join(projectDir, file)))
+  );
+  if (missing.length > 0) {
+    log(kleur.yellow(`  This ${options.kind} needs the ${missing.join(', ')} feature${missing.length === 1 ? '' : 's'}, run:`));
+    log(kleur.white(`  ${kleur.bold(`create-mix-tstart add ${missing.join(' ')}`)}`));
+  }
+  if (generated.routes) {
+    log(kleur.white('  Start the dev server once to regenerate src/routeTree.gen.ts'));
+  }
+  log('');
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        dir: { type: 'string', short: 'd', default: '.' },
+        force: { type: 'boolean', short: 'f' },
+        method: { type: 'string', default: 'POST' },
+        'no-test': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length > 2) {
+    fail(`Unexpected argument "${positionals[2]}"\n${HELP}`);
+  }
+
+  return {
+    kind: positionals[0],
+    name: positionals[1],
+    dir: values.dir,
+    force: Boolean(values.force),
+    method: values.method.toUpperCase(),
+    test: !values['no-test'],
+    help: Boolean(values.help),
+  };
+}
@@ -0,0 +1,322 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { execFileSync } from 'node:child_process';
+import kleur from 'kleur';
+import { fail, log, setJsonOutput } from '../output.js';
+import { detectPackageManager } from '../package-managers.js';
+import { extractTarball } from '../tar.js';
+import {
+  CLI_VERSION,
+  DEFAULT_MIX_SERVER_URL,
+  discoverTemplates,
+  isBinary,
+  isLocalTemplate,
+  listFiles,
+  PACKAGE_ROOT,
+  PROJECT_RECORD_FILE,
+  readLocalTemplate,
+  readProjectRecord,
+  renderProject,
+  writeProjectRecord,
+} from '../templates.js';
+
+const HELP = `
+Usage: create-mix-tstart upgrade [options]
+
+Apply template changes made since the project was created, merging them with
+your own edits. Conflicting files are left untouched and the template's
+version is written next to them as <file>.upgrade.
+
+Options:
+  -d, --dir <path>               Project directory (default: current directory)
+      --from <version>           Template version the project was created from
+                                 (default: the version recorded in ${PROJECT_RECORD_FILE})
+      --from-dir <path>          Use a local copy of the old package instead of downloading it.
+                                 Required for projects created from a local template,
+                                 where it is the template directory or .tgz as it was then
+  -t, --template <name>          Template the project was created from, if not recorded
+      --dry-run                  Show what would change without writing anything
+      --json                     Print the result as JSON
+  -h, --help                     Show this help message
+`;
+
+const ACTION_LABELS = {
+  add: kleur.green('add      '),
+  update: kleur.green('update   '),
+  merge: kleur.cyan('merge    '),
+  delete: kleur.yellow('delete   '),
+  conflict: kleur.red('conflict '),
+};
+
+export async function upgrade(argv) {
+  const options = parseOptions(argv);
+
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  setJsonOutput(options.json);
+
+  const projectDir = path.resolve(options.dir);
+  const packageJsonPath = path.join(projectDir, 'package.json');
+
+  if (!fs.existsSync(packageJsonPath)) {
+    fail(`No package.json found in ${projectDir}`);
+  }
+
+  const record = readProjectRecord(projectDir) ?? guessProjectRecord(projectDir, packageJsonPath, options);
+  const fromVersion = options.from ?? record.version;
+
+  // Local templates have no published versions to download
+  if (record.source && !options.fromDir) {
+    fail(`The project was created from the local template ${record.source}. Pass --from-dir with a copy of that template as it was then.`);
+  }
+
+  if (!options.fromDir && fromVersion === CLI_VERSION) {
+    log(kleur.green(`\n✓ Already on template version ${CLI_VERSION}\n`));
+    return;
+  }
+
+  const [fromLabel, toLabel] = record.source ? [options.fromDir, record.source] : [fromVersion, CLI_VERSION];
+  log(kleur.bold().cyan(`\n⬆️  Upgrading ${record.template} template from ${fromLabel} to ${toLabel}\n`));
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mix-tstart-upgrade-'));
+
+  try {
+    const oldTemplate = record.source
+      ? findLocalTemplate(options.fromDir)
+      : findTemplate(discoverTemplates(options.fromDir ? path.resolve(options.fromDir) : downloadPackage(fromVersion, workDir)), record.template, fromVersion);
+    const newTemplate = record.source
+      ? findLocalTemplate(record.source)
+      : findTemplate(discoverTemplates(), record.template, CLI_VERSION);
+
+    // Rebuild both versions exactly as `create` would have written them
+    const baseDir = path.join(workDir, 'base');
+    const theirsDir = path.join(workDir, 'theirs');
+    renderProject(oldTemplate, baseDir, record.variables);
+    renderProject(newTemplate, theirsDir, record.variables);
+
+    const changes = planUpgrade(baseDir, theirsDir, projectDir, workDir, fromVersion);
+
+    for (const change of changes) {
+      log(`  ${ACTION_LABELS[change.action]} ${change.file}${change.reason ? kleur.gray(` (${change.reason})`) : ''}`);
+    }
+
+    if (!options.dryRun) {
+      applyUpgrade(changes, projectDir);
+      writeProjectRecord(projectDir, { ...record, version: CLI_VERSION });
+    }
+
+    const conflicts = changes.filter(change => change.action === 'conflict');
+
+    log('');
+    if (changes.length === 0) {
+      log(kleur.green('✓ No template changes affect this project'));
+    } else if (conflicts.length > 0) {
+      log(kleur.yellow(`⚠ ${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} need manual resolution`));
+      log(kleur.gray('  Compare each file with its .upgrade copy, then delete the .upgrade file'));
+    } else {
+      log(kleur.green(`✓ ${options.dryRun ? 'Upgrade would apply cleanly' : 'Upgrade applied'}`));
+    }
+    log('');
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        directory: projectDir,
+        template: record.template,
+        from: fromVersion,
+        to: CLI_VERSION,
+        dryRun: options.dryRun,
+        changes: changes.map(({ file, action, reason, sidecar }) => ({
+          file,
+          action,
+          reason: reason ?? null,
+          sidecar: sidecar ? `${file}.upgrade` : null,
+        })),
+      }, null, 2));
+    }
+
+    if (conflicts.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+function parseOptions(argv) {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        dir: { type: 'string', short: 'd', default: '.' },
+        from: { type: 'string' },
+        'from-dir': { type: 'string' },
+        template: { type: 'string', short: 't' },
+        'dry-run': { type: 'boolean' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    fail(`${error.message}\n${HELP}`);
+  }
+
+  const { values } = parsed;
+
+  return {
+    dir: values.dir,
+    from: values.from,
+    fromDir: values['from-dir'],
+    template: values.template,
+    dryRun: Boolean(values['dry-run']),
+    json: Boolean(values.json),
+    help: Boolean(values.help),
+  };
+}
+
+// Projects created before versions were recorded need --from to say where they started
+function guessProjectRecord(projectDir, packageJsonPath, options) {
+  if (!options.from && !options.fromDir) {
+    fail(`No ${PROJECT_RECORD_FILE} found in ${projectDir}. Pass --from <version> with the create-mix-tstart version the project was created with.`);
+  }
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+
+  return {
+    template: options.template ?? 'base',
+    source: options.template && isLocalTemplate(options.template) ? path.resolve(options.template) : undefined,
+    version: options.from ?? 'unknown',
+    variables: {
+      projectName: packageJson.name,
+      packageManager: detectPackageManager(projectDir) ?? 'npm',
+      mixServerUrl: DEFAULT_MIX_SERVER_URL,
+    },
+  };
+}
+
+// Fetch a published version of this package with `npm pack` and unpack it
+function downloadPackage(version, workDir) {
+  const { name } = JSON.parse(fs.readFileSync(path.join(PACKAGE_ROOT, 'package.json'), 'utf-8'));
+
+  try {
+    const tarball = execFileSync('npm', ['pack', `${name}@${version}`, '--pack-destination', workDir, '--silent'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).toString().trim().split('\n').pop();
+
+    extractTarball(path.join(workDir, tarball), workDir);
+  } catch (error) {
+    fail(`Could not download ${name}@${version}: ${error.stderr?.toString().trim() || error.message}\nUse --from-dir to point at a local copy instead.`);
+  }
+
+  return path.join(workDir, 'package');
+}
+
+function findTemplate(templates, name, version) {
+  const template = templates.find(t => t.name === name);
+  if (!template) {
+    fail(`Template "${name}" does not exist in version ${version}`);
+  }
+  return template;
+}
+
+// A local template directory or .tgz, by the path recorded or given with --from-dir
+function findLocalTemplate(source) {
+  try {
+    return readLocalTemplate(source);
+  } catch (error) {
+    fail(error.message);
+  }
+}
+
+/**
+ * Three-way compare every template file: `base` is the old template output,
+ * `theirs` the new one and `ours` the project. Template changes are taken
+ * when the project still matches the old version, text edits on both sides
+ * go through `git merge-file`, and anything else is a conflict.
+ */
+function planUpgrade(baseDir, theirsDir, projectDir, workDir, fromVersion) {
+  const files = [...new Set([...listFiles(baseDir), ...listFiles(theirsDir)])].sort();
+  const changes = [];
+
+  for (const file of files) {
+    const base = readIfExists(path.join(baseDir, file));
+    const theirs = readIfExists(path.join(theirsDir, file));
+    const ours = readIfExists(path.join(projectDir, file));
+
+    // Untouched by the template, or the project already has the new version
+    if (sameContents(base, theirs) || sameContents(ours, theirs)) continue;
+
+    if (sameContents(ours, base)) {
+      const action = !theirs ? 'delete' : ours ? 'update' : 'add';
+      changes.push({ file, action, content: theirs });
+    } else if (!ours) {
+      changes.push({ file, action: 'conflict', reason: 'deleted locally, changed in the template' });
+    } else if (!theirs) {
+      changes.push({ file, action: 'conflict', reason: 'changed locally, removed from the template' });
+    } else if (!base || isBinary(base) || isBinary(ours) || isBinary(theirs)) {
+      changes.push({ file, action: 'conflict', reason: base ? 'binary file changed on both sides' : 'added on both sides', sidecar: theirs });
+    } else {
+      const { merged, clean } = mergeText(ours, base, theirs, workDir, fromVersion);
+      changes.push(clean
+        ? { file, action: 'merge', content: merged }
+        : { file, action: 'conflict', reason: 'overlapping changes', sidecar: merged ?? theirs });
+    }
+  }
+
+  return changes;
+}
+
+function mergeText(ours, base, theirs, workDir, fromVersion) {
+  const mergeDir = path.join(workDir, 'merge');
+  fs.mkdirSync(mergeDir, { recursive: true });
+  fs.writeFileSync(path.join(mergeDir, 'ours'), ours);
+  fs.writeFileSync(path.join(mergeDir, 'base'), base);
+  fs.writeFileSync(path.join(mergeDir, 'theirs'), theirs);
+
+  const args = [
+    'merge-file', '-p',
+    '-L', 'yours', '-L', `template ${fromVersion}`, '-L', `template ${CLI_VERSION}`,
+    path.join(mergeDir, 'ours'), path.join(mergeDir, 'base'), path.join(mergeDir, 'theirs'),
+  ];
+
+  try {
+    return { merged: execFileSync('git', args, { stdio: ['ignore', 'pipe', 'pipe'] }), clean: true };
+  } catch (error) {
+    // Exit status is the number of conflicts; without git nothing can be merged
+    if (error.status > 0 && error.status < 128 && error.stdout) {
+      return { merged: error.stdout, clean: false };
+    }
+    return { merged: null, clean: false };
+  }
+}
+
+function applyUpgrade(changes, projectDir) {
+  for (const change of changes) {
+    const filePath = path.join(projectDir, change.file);
+
+    if (change.action === 'delete') {
+      fs.rmSync(filePath, { force: true });
+    } else if (change.action === 'conflict') {
+      if (change.sidecar) {
+        fs.writeFileSync(`${filePath}.upgrade`, change.sidecar);
+      }
+    } else {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, change.content);
+    }
+  }
+}
+
+function readIfExists(filePath) {
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? fs.readFileSync(filePath) : null;
+}
+
+function sameContents(a, b) {
+  return a === null || b === null ? a === b : a.equals(b);
+}
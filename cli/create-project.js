@@ -0,0 +1,312 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { execSync } from 'node:child_process';
+import { DEFAULT_DEPLOY_TARGET, DEPLOY_TARGETS } from './deploy-targets.js';
+import { readEnvFile } from './env.js';
+import {
+  CancelledError,
+  EngineError,
+  FileConflictError,
+  InvalidOptionError,
+  TargetDirectoryError,
+} from './errors.js';
+import { initRepository } from './git.js';
+import {
+  detectInvokingPackageManager,
+  getDevCommand,
+  getInstallCommand,
+  PACKAGE_MANAGERS,
+} from './package-managers.js';
+import {
+  checkEngines,
+  CLI_VERSION,
+  DEFAULT_MIX_SERVER_URL,
+  discoverTemplates,
+  isLocalTemplate,
+  listFiles,
+  readLocalTemplate,
+  renderProject,
+  writeProjectRecord,
+} from './templates.js';
+import { beginTransaction, isInterrupted } from './transaction.js';
+
+// How template files that would replace different existing files are handled
+export const CONFLICT_MODES = ['error', 'overwrite', 'skip', 'rename'];
+
+/**
+ * Scaffold a project without prompting. Options that are left out get the
+ * same defaults as `create-mix-tstart --yes`. Resolves to a summary of the
+ * created project and rejects with a `CreateProjectError` subclass; anything
+ * written is rolled back first. Aborting `options.signal` rejects with a
+ * `CancelledError` at the next step.
+ */
+export async function createProject(options) {
+  const { template } = validateOptions(options);
+
+  if (typeof options.directory !== 'string' || !options.directory) {
+    throw new InvalidOptionError('directory', 'A target directory is required');
+  }
+
+  const { signal } = options;
+  if (signal?.aborted) throw new CancelledError();
+
+  const directory = options.directory;
+  const projectName = options.projectName ?? path.basename(path.resolve(directory));
+  const packageManager = options.packageManager ?? detectInvokingPackageManager() ?? 'bun';
+  const deployTarget = options.deployTarget ?? DEFAULT_DEPLOY_TARGET;
+  const mixServerUrl = options.mixServerUrl ?? DEFAULT_MIX_SERVER_URL;
+  const onConflict = options.onConflict ?? 'error';
+  const onProgress = options.onProgress ?? (() => {});
+  const stdio = options.stdio ?? 'ignore';
+
+  const { merge } = checkTargetDirectory(directory, options);
+
+  // Check Node/Bun versions against the template's requirements
+  const engineProblems = checkEngines(template.manifest, packageManager);
+  if (engineProblems.length > 0) {
+    throw new EngineError(template.name, engineProblems);
+  }
+
+  // Build in a staging directory so a failure or Ctrl-C never leaves a half-written project
+  const transaction = beginTransaction(directory, { keepOnFailure: options.keepOnFailure, merge });
+  const stagingDir = transaction.stagingDir;
+  let installed = false;
+
+  // Gives a pending abort, e.g. from the host's SIGINT handler, a chance to land between steps
+  const checkpoint = async () => {
+    await new Promise(resolve => setImmediate(resolve));
+    if (signal?.aborted) throw new CancelledError();
+  };
+
+  try {
+    const variables = { projectName, packageManager, mixServerUrl, deployTarget };
+    renderProject(template, stagingDir, variables);
+    // Local templates are found again by path, since they are not part of any published version
+    const source = template.local ? path.resolve(template.value) : undefined;
+    writeProjectRecord(stagingDir, { template: template.name, source, version: CLI_VERSION, variables });
+
+    // Move into place before installing, since some package managers record absolute paths
+    const destinations = merge ? await resolveCollisions(stagingDir, directory, onConflict) : undefined;
+    await checkpoint();
+    transaction.commit(destinations);
+    onProgress({ type: 'copied' });
+
+    if (options.install ?? true) {
+      await checkpoint();
+      const command = getInstallCommand(packageManager);
+      onProgress({ type: 'install', command });
+
+      try {
+        execSync(command, { cwd: directory, stdio });
+        installed = true;
+        onProgress({ type: 'installed' });
+      } catch (error) {
+        if (isInterrupted(error)) throw new CancelledError();
+        onProgress({ type: 'install-failed', command, error });
+      }
+    }
+
+    // Post-install commands need node_modules, so they only run after a successful install
+    const postInstall = template.manifest.postInstall;
+    if (installed && postInstall.length > 0) {
+      onProgress({ type: 'post-install', commands: postInstall });
+
+      for (const command of postInstall) {
+        await checkpoint();
+        try {
+          execSync(command, { cwd: directory, stdio });
+        } catch (error) {
+          if (isInterrupted(error)) throw new CancelledError();
+          onProgress({ type: 'post-install-failed', command, error });
+        }
+      }
+    }
+
+    await checkpoint();
+    transaction.finish();
+  } catch (error) {
+    const rollback = transaction.rollback();
+    onProgress(rollback.kept
+      ? { type: 'kept-partial', directory: rollback.directory, backupDir: rollback.backupDir }
+      : { type: 'rolled-back' });
+    throw error;
+  }
+
+  // After installing, so the lockfile is part of the first commit. Failures only skip this step
+  let git = 'skipped';
+  if (options.git ?? true) {
+    const repository = initRepository(directory);
+    onProgress({ type: 'git', ...repository });
+    git = repository.status;
+  }
+
+  return {
+    projectName,
+    directory: path.resolve(directory),
+    template: template.name,
+    packageManager,
+    deployTarget,
+    installed,
+    git,
+    requiredEnv: template.manifest.env.filter(v => v.required).map(v => v.name),
+    nextSteps: getNextSteps(template.manifest, directory, packageManager, installed),
+  };
+}
+
+/**
+ * Check that `directory` can be scaffolded into. An existing directory is
+ * replaced with `force`, otherwise merged into; the working directory can
+ * only be merged into. Returns whether it exists and whether to merge.
+ */
+export function checkTargetDirectory(directory, { force = false } = {}) {
+  const exists = fs.existsSync(directory);
+
+  if (exists && !fs.statSync(directory).isDirectory()) {
+    throw new TargetDirectoryError(directory, `"${directory}" exists and is not a directory`);
+  }
+  if (exists && force && path.resolve(directory) === process.cwd()) {
+    throw new TargetDirectoryError(directory, 'The current directory cannot be replaced, merge into it and overwrite conflicting files instead');
+  }
+
+  return { exists, merge: exists && !force };
+}
+
+/**
+ * Check the options that were given, before anything is written. The CLI calls
+ * this before prompting so bad flags fail fast. Returns the template.
+ */
+export function validateOptions(options) {
+  const templateName = options.template ?? 'base';
+
+  let template;
+
+  // Paths and tarballs are loaded as they are, names are looked up among the built-in templates
+  if (isLocalTemplate(templateName)) {
+    template = readLocalTemplate(templateName);
+  } else {
+    const templates = discoverTemplates();
+    template = templates.find(t => t.value === normalizeTemplate(templateName));
+
+    if (!template) {
+      throw new InvalidOptionError('template', `Unknown template "${templateName}". Available: ${templates.map(t => t.name).join(', ')}`);
+    }
+  }
+
+  if (options.packageManager !== undefined && !PACKAGE_MANAGERS.includes(options.packageManager)) {
+    throw new InvalidOptionError('packageManager', `Unknown package manager "${options.packageManager}". Available: ${PACKAGE_MANAGERS.join(', ')}`);
+  }
+
+  if (options.deployTarget !== undefined && !Object.hasOwn(DEPLOY_TARGETS, options.deployTarget)) {
+    throw new InvalidOptionError('deployTarget', `Unknown deployment target "${options.deployTarget}". Available: ${Object.keys(DEPLOY_TARGETS).join(', ')}`);
+  }
+
+  if (options.mixServerUrl !== undefined && !URL.canParse(options.mixServerUrl)) {
+    throw new InvalidOptionError('mixServerUrl', `Invalid Mix server URL "${options.mixServerUrl}"`);
+  }
+
+  const { onConflict } = options;
+  if (onConflict !== undefined && typeof onConflict !== 'function' && !CONFLICT_MODES.includes(onConflict)) {
+    throw new InvalidOptionError('onConflict', `Unknown conflict mode "${onConflict}". Available: ${CONFLICT_MODES.join(', ')}`);
+  }
+
+  return { template };
+}
+
+// Accept both "name" and the "example:name" form used by the prompt choices
+function normalizeTemplate(template) {
+  if (template === 'base' || template.startsWith('example:')) {
+    return template;
+  }
+  return `example:${template}`;
+}
+
+/**
+ * Find staged files that would replace different existing files and decide
+ * what happens to each: overwrite it, skip it, or write the template's copy
+ * under a new name. `onConflict` is a mode for every file, or a function
+ * that gets the colliding files and returns a mode or a per-file map.
+ * Returns the destination map for `transaction.commit()`.
+ */
+async function resolveCollisions(stagingDir, targetDir, onConflict) {
+  const destinations = new Map();
+  const collisions = [];
+
+  for (const file of listFiles(stagingDir)) {
+    const existingPath = path.join(targetDir, file);
+    if (!fs.existsSync(existingPath)) continue;
+
+    const identical = fs.statSync(existingPath).isFile()
+      && fs.readFileSync(existingPath).equals(fs.readFileSync(path.join(stagingDir, file)));
+
+    if (identical) {
+      destinations.set(file, null);
+    } else {
+      collisions.push(file);
+    }
+  }
+
+  if (collisions.length === 0) {
+    return destinations;
+  }
+
+  const choice = typeof onConflict === 'function' ? await onConflict(collisions) : onConflict;
+
+  if (choice === 'error') {
+    throw new FileConflictError(targetDir, collisions);
+  }
+
+  const actions = typeof choice === 'string'
+    ? new Map(collisions.map(file => [file, choice]))
+    : new Map(choice instanceof Map ? choice : Object.entries(choice ?? {}));
+
+  for (const file of collisions) {
+    const action = actions.get(file);
+
+    if (!['overwrite', 'skip', 'rename'].includes(action)) {
+      throw new InvalidOptionError('onConflict', `No valid conflict action for "${file}": ${action}`);
+    }
+
+    if (action === 'skip') {
+      destinations.set(file, null);
+    } else if (action === 'rename') {
+      destinations.set(file, renamedPath(file));
+    }
+  }
+
+  return destinations;
+}
+
+// README.md -> README.template.md, .gitignore -> .gitignore.template
+export function renamedPath(file) {
+  const ext = path.extname(file);
+  return ext ? `${file.slice(0, -ext.length)}.template${ext}` : `${file}.template`;
+}
+
+/**
+ * What to run after scaffolding. Lines starting with "#" are instructions
+ * rather than commands. Variables already set in .env are left out.
+ */
+export function getNextSteps(manifest, directory, packageManager, installed) {
+  const steps = path.resolve(directory) === process.cwd() ? [] : [`cd ${directory}`];
+  const envPath = path.join(directory, '.env');
+  const env = readEnvFile(envPath);
+  const missingEnv = manifest.env.filter(v => v.required && !env[v.name]);
+
+  if (missingEnv.length > 0) {
+    if (!fs.existsSync(envPath)) {
+      steps.push('cp .env.example .env');
+    }
+    for (const variable of missingEnv) {
+      steps.push(`# Set ${variable.name} in .env${variable.description ? ` (${variable.description})` : ''}`);
+    }
+  }
+
+  if (!installed) {
+    steps.push(getInstallCommand(packageManager));
+  }
+
+  steps.push(...manifest.nextSteps);
+  steps.push(getDevCommand(packageManager));
+
+  return steps;
+}
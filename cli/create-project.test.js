@@ -0,0 +1,132 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createProject } from './create-project.js';
+import { CancelledError, FileConflictError } from './errors.js';
+import { extractTarball } from './tar.js';
+import { discoverTemplates, PACKAGE_ROOT, PROJECT_RECORD_FILE } from './templates.js';
+
+// Scaffolding copies the whole package root for the base template
+const TIMEOUT_MS = 60_000;
+
+let workDir;
+
+beforeAll(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mix-tstart-test-'));
+});
+
+afterAll(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe.each(discoverTemplates())('createProject with the $name template', (template) => {
+  it('scaffolds a project that matches its manifest', async () => {
+    const directory = path.join(workDir, template.name);
+    const events = [];
+
+    const result = await createProject({
+      directory,
+      projectName: `test-${template.name}`,
+      template: template.value,
+      packageManager: 'npm',
+      install: false,
+      git: false,
+      onProgress: event => events.push(event.type),
+    });
+
+    expect(result).toMatchObject({
+      directory,
+      template: template.name,
+      packageManager: 'npm',
+      installed: false,
+      git: 'skipped',
+    });
+    expect(events).toEqual(['copied']);
+
+    const packageJson = JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf-8'));
+    expect(packageJson.name).toBe(`test-${template.name}`);
+
+    const record = JSON.parse(fs.readFileSync(path.join(directory, PROJECT_RECORD_FILE), 'utf-8'));
+    expect(record.template).toBe(template.name);
+
+    for (const variable of template.manifest.env) {
+      expect(fs.readFileSync(path.join(directory, '.env.example'), 'utf-8')).toContain(`${variable.name}=`);
+    }
+
+    // Manifest replacements and variables leave no placeholders behind
+    for (const file of template.manifest.files.filter(f => f.replace)) {
+      expect(fs.readFileSync(path.join(directory, file.path), 'utf-8')).not.toMatch(/{{\w+}}/);
+    }
+
+    // Staging and backup directories are cleaned up
+    expect(fs.readdirSync(workDir).filter(entry => entry.startsWith('.'))).toEqual([]);
+  }, TIMEOUT_MS);
+});
+
+describe('createProject', () => {
+  it('rolls back and rejects when files would be replaced', async () => {
+    const directory = path.join(workDir, 'existing');
+    fs.mkdirSync(directory);
+    fs.writeFileSync(path.join(directory, 'package.json'), '{}\n');
+    const events = [];
+
+    await expect(createProject({
+      directory,
+      install: false,
+      git: false,
+      onProgress: event => events.push(event.type),
+    })).rejects.toBeInstanceOf(FileConflictError);
+
+    expect(events).toEqual(['rolled-back']);
+    expect(fs.readdirSync(directory)).toEqual(['package.json']);
+  }, TIMEOUT_MS);
+
+  it('rolls back and rejects with a CancelledError when the signal aborts', async () => {
+    const directory = path.join(workDir, 'cancelled');
+    const cancellation = new AbortController();
+
+    await expect(createProject({
+      directory,
+      install: false,
+      git: false,
+      signal: cancellation.signal,
+      onProgress: (event) => {
+        if (event.type === 'copied') cancellation.abort();
+      },
+    })).rejects.toBeInstanceOf(CancelledError);
+
+    expect(fs.existsSync(directory)).toBe(false);
+  }, TIMEOUT_MS);
+});
+
+describe('the packed package', () => {
+  // Catches files the template needs but package.json "files" leaves out
+  it('scaffolds the base template from npm pack output', async () => {
+    const packDir = path.join(workDir, '.pack');
+    fs.mkdirSync(packDir);
+    const [{ filename }] = JSON.parse(execFileSync('npm', ['pack', '--json', '--ignore-scripts', '--pack-destination', packDir], {
+      cwd: PACKAGE_ROOT,
+      encoding: 'utf-8',
+    }));
+    extractTarball(path.join(packDir, filename), packDir);
+
+    // The packed CLI resolves its dependencies from here, as it would once installed
+    const packageDir = path.join(packDir, 'package');
+    fs.symlinkSync(path.join(PACKAGE_ROOT, 'node_modules'), path.join(packageDir, 'node_modules'), 'dir');
+
+    const packed = await import(pathToFileURL(path.join(packageDir, 'cli', 'create-project.js')).href);
+    const directory = path.join(workDir, 'from-pack');
+
+    await packed.createProject({ directory, projectName: 'from-pack', install: false, git: false });
+
+    expect(fs.readFileSync(path.join(directory, '.env.example'), 'utf-8')).toContain('MIX_SERVER_URL=');
+    expect(fs.readFileSync(path.join(directory, 'src/routes/__root.tsx'), 'utf-8')).toContain('title: "from-pack"');
+    // Generated tests need vitest.config.ts for the "@/" paths and the React plugin
+    expect(fs.existsSync(path.join(directory, 'vitest.config.ts'))).toBe(true);
+
+    fs.rmSync(packDir, { recursive: true, force: true });
+  }, TIMEOUT_MS);
+});
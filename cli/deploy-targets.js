@@ -0,0 +1,147 @@
+import { TemplateError } from './errors.js';
+import { getInstallCommand, getLockfile, getRunCommand } from './package-managers.js';
+
+// Templates are written for Netlify; the other targets swap its adapter for Nitro's Node server
+export const DEPLOY_TARGETS = {
+  netlify: {
+    title: 'Netlify',
+    description: 'Netlify adapter and netlify.toml',
+  },
+  node: {
+    title: 'Node server',
+    description: 'Standalone Node server built with Nitro, started from the Procfile',
+  },
+  docker: {
+    title: 'Docker',
+    description: 'Node server built with Nitro, packaged with a Dockerfile',
+  },
+};
+
+export const DEFAULT_DEPLOY_TARGET = 'netlify';
+
+const NETLIFY_PLUGIN = '@netlify/vite-plugin-tanstack-start';
+const NITRO_PLUGIN = '@tanstack/nitro-v2-vite-plugin';
+const NITRO_PLUGIN_VERSION = '^1.132.33';
+const NODE_SERVER_ENTRY = '.output/server/index.mjs';
+
+/**
+ * Rewrite a built project's files for the chosen deployment target. `files`
+ * is the map returned by `buildProject()` and is changed in place.
+ */
+export function applyDeployTarget(files, template, deployTarget, packageManager) {
+  if (deployTarget === 'netlify') return files;
+
+  files.delete('netlify.toml');
+  setText(files, 'vite.config.ts', useNitro(getText(files, 'vite.config.ts'), template));
+
+  if (files.has('package.json')) {
+    const packageJson = JSON.parse(getText(files, 'package.json'));
+    delete packageJson.dependencies?.[NETLIFY_PLUGIN];
+    delete packageJson.devDependencies?.[NETLIFY_PLUGIN];
+    packageJson.dependencies = sortKeys({ ...packageJson.dependencies, [NITRO_PLUGIN]: NITRO_PLUGIN_VERSION });
+    packageJson.scripts = { ...packageJson.scripts, start: `node ${NODE_SERVER_ENTRY}` };
+    setText(files, 'package.json', JSON.stringify(packageJson, null, 2) + '\n');
+  }
+
+  if (deployTarget === 'node') {
+    // Hosts like Heroku and Railway read `web` from the Procfile, so `make dev` moves to Procfile.dev
+    if (files.has('Procfile')) {
+      files.set('Procfile.dev', files.get('Procfile'));
+      if (files.has('Makefile')) {
+        setText(files, 'Makefile', getText(files, 'Makefile').replace('./scripts/shoreman.sh', './scripts/shoreman.sh Procfile.dev'));
+      }
+    }
+    setText(files, 'Procfile', `web: ${getRunCommand(packageManager, 'start')}\n`);
+  }
+
+  if (deployTarget === 'docker') {
+    setText(files, 'Dockerfile', dockerfile(packageManager));
+    setText(files, '.dockerignore', 'node_modules\n.output\ndist\n.env\n.git\n*.log\n');
+  }
+
+  return files;
+}
+
+// Markdown for the generated README's Deployment section
+export function getDeployInstructions(deployTarget, packageManager, projectName) {
+  if (deployTarget === 'node') {
+    return [
+      'Build the app and start the Node server on port 3000 (set `PORT` to change it):',
+      '',
+      '```bash',
+      getRunCommand(packageManager, 'build'),
+      getRunCommand(packageManager, 'start'),
+      '```',
+      '',
+      'Hosts that read the `Procfile`, such as Heroku or Railway, run the same command. Set `MIX_SERVER_URL` in the host\'s environment.',
+    ].join('\n');
+  }
+
+  if (deployTarget === 'docker') {
+    return [
+      'Build the image and run it with the Mix server URL:',
+      '',
+      '```bash',
+      `docker build -t ${projectName.toLowerCase()} .`,
+      `docker run -p 3000:3000 -e MIX_SERVER_URL=http://host.docker.internal:8088 ${projectName.toLowerCase()}`,
+      '```',
+    ].join('\n');
+  }
+
+  return [
+    'The app is configured for [Netlify](https://www.netlify.com/) through `netlify.toml`. Connect the repository in Netlify, or deploy from the command line:',
+    '',
+    '```bash',
+    'npx netlify deploy --build',
+    '```',
+    '',
+    'Set `MIX_SERVER_URL` in the site\'s environment variables.',
+  ].join('\n');
+}
+
+function useNitro(config, template) {
+  if (!config || !/tanstackStart\(\),?/.test(config)) {
+    throw new TemplateError(template.name, `Template "${template.name}" has no tanstackStart() plugin in vite.config.ts to add the Node server adapter to`);
+  }
+
+  return config
+    .replace(/^import netlify from .*\n/m, '')
+    .replace(/^[ \t]*netlify\(\),?\n/m, '')
+    .replace(/^(import \{ tanstackStart \} from .*\n)/m, `$1import { nitroV2Plugin } from '${NITRO_PLUGIN}'\n`)
+    .replace(/^([ \t]*)(tanstackStart\(\),?)\n/m, "$1$2\n$1nitroV2Plugin({ preset: 'node-server' }),\n");
+}
+
+function dockerfile(packageManager) {
+  const image = packageManager === 'bun' ? 'oven/bun:1' : 'node:22-slim';
+  const setup = packageManager === 'pnpm' || packageManager === 'yarn' ? 'RUN corepack enable\n' : '';
+
+  return `# Build stage: install dependencies and build the Nitro server
+FROM ${image} AS build
+WORKDIR /app
+${setup}COPY package.json ${getLockfile(packageManager)}* ./
+RUN ${getInstallCommand(packageManager)}
+COPY . .
+RUN ${getRunCommand(packageManager, 'build')}
+
+# Runtime stage: the .output directory is self-contained
+FROM node:22-slim
+WORKDIR /app
+ENV NODE_ENV=production
+ENV PORT=3000
+COPY --from=build /app/.output ./.output
+EXPOSE 3000
+CMD ["node", "${NODE_SERVER_ENTRY}"]
+`;
+}
+
+function getText(files, file) {
+  return files.get(file)?.contents.toString('utf-8');
+}
+
+function setText(files, file, text) {
+  files.set(file, { contents: Buffer.from(text), mode: files.get(file)?.mode ?? 0o644 });
+}
+
+function sortKeys(object) {
+  return Object.fromEntries(Object.entries(object).sort(([a], [b]) => a.localeCompare(b)));
+}
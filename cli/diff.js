@@ -0,0 +1,58 @@
+/**
+ * Line diff of two texts, as `{ type, line }` entries where type is ' ',
+ * '-' or '+'. Uses a plain LCS table, which is fine for config-sized files.
+ */
+export function diffLines(before, after) {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      changes.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      changes.push({ type: '-', line: a[i++] });
+    } else {
+      changes.push({ type: '+', line: b[j++] });
+    }
+  }
+
+  return changes;
+}
+
+// Keep changed lines plus `context` unchanged lines around them, with null marking a gap
+export function withContext(changes, context = 2) {
+  const keep = changes.map(() => false);
+
+  changes.forEach((change, index) => {
+    if (change.type === ' ') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(changes.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const hunks = [];
+  changes.forEach((change, index) => {
+    if (keep[index]) {
+      hunks.push(change);
+    } else if (hunks.length > 0 && hunks[hunks.length - 1] !== null) {
+      hunks.push(null);
+    }
+  });
+
+  if (hunks[hunks.length - 1] === null) hunks.pop();
+  return hunks;
+}
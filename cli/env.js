@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+
+const ASSIGNMENT = /^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*)$/;
+
+/**
+ * Parse a dotenv file into an object. Handles comments, `export` prefixes
+ * and quoted values; returns an empty object when the file is missing.
+ */
+export function readEnvFile(filePath) {
+  return Object.fromEntries(readEnvVariables(filePath).map(variable => [variable.name, variable.value]));
+}
+
+/**
+ * Parse a dotenv file into its variables in order, each with the comment
+ * lines directly above it, as written in `.env.example`. Returns an empty
+ * array when the file is missing.
+ */
+export function readEnvVariables(filePath) {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const variables = [];
+  let comments = [];
+
+  for (const line of fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+    const comment = line.match(/^\s*#\s?(.*)$/);
+    if (comment) {
+      comments.push(comment[1]);
+      continue;
+    }
+
+    const match = line.match(ASSIGNMENT);
+    if (match) {
+      variables.push({ name: match[1], value: parseValue(match[2]), comments });
+    }
+    comments = [];
+  }
+
+  return variables;
+}
+
+/**
+ * Turn the contents of `.env.example` into a `.env` with the given values,
+ * keeping its comments and layout. Variables without a value keep the
+ * example's.
+ */
+export function renderEnvFile(example, values) {
+  return example.replace(/^[ \t]*(?:export[ \t]+)?([\w.]+)[ \t]*=.*$/gm, (line, name) => (
+    Object.hasOwn(values, name) ? `${name}=${formatValue(values[name])}` : line
+  ));
+}
+
+function parseValue(raw) {
+  const value = raw.trim();
+  if (/^(['"]).*\1$/.test(value)) {
+    return value.slice(1, -1);
+  }
+  return value.replace(/\s+#.*$/, '');
+}
+
+// Quote values that would otherwise be cut at whitespace or a comment
+function formatValue(value) {
+  return /[\s#'"]/.test(value) ? JSON.stringify(value) : value;
+}
@@ -0,0 +1,60 @@
+/**
+ * Errors thrown by `createProject()` and the modules behind it. `code` is
+ * stable for callers to branch on; `exitCode` is what the CLI exits with.
+ */
+export class CreateProjectError extends Error {
+  constructor(message, code, exitCode = 1) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.exitCode = exitCode;
+  }
+}
+
+// An option has a value the CLI does not accept, e.g. an unknown template
+export class InvalidOptionError extends CreateProjectError {
+  constructor(option, message) {
+    super(message, 'INVALID_OPTION');
+    this.option = option;
+  }
+}
+
+// The target path cannot be used: not a directory, or --force on the current directory
+export class TargetDirectoryError extends CreateProjectError {
+  constructor(directory, message) {
+    super(message, 'TARGET_DIRECTORY');
+    this.directory = directory;
+  }
+}
+
+// Template files would replace different existing files and no conflict mode was given
+export class FileConflictError extends CreateProjectError {
+  constructor(directory, files) {
+    super(`These files already exist in "${directory}":\n  ${files.join('\n  ')}`, 'FILE_CONFLICT');
+    this.directory = directory;
+    this.files = files;
+  }
+}
+
+// The running Node or Bun is older than the template requires
+export class EngineError extends CreateProjectError {
+  constructor(template, problems) {
+    super(`Template "${template}" requires:\n  ${problems.join('\n  ')}`, 'ENGINE_MISMATCH');
+    this.template = template;
+    this.problems = problems;
+  }
+}
+
+// A template is broken: invalid template.json or files the CLI cannot adapt
+export class TemplateError extends CreateProjectError {
+  constructor(template, message) {
+    super(message, 'TEMPLATE_INVALID');
+    this.template = template;
+  }
+}
+
+export class CancelledError extends CreateProjectError {
+  constructor() {
+    super('Project creation cancelled', 'CANCELLED', 130);
+  }
+}
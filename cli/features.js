@@ -0,0 +1,58 @@
+import { DEFAULT_MIX_SERVER_URL } from './templates.js';
+
+/**
+ * Features that `create-mix-tstart add` can install into an existing app.
+ * Files are copied from this package's own `src`, and dependency versions
+ * come from this package's package.json so they match the base template.
+ */
+export const FEATURES = {
+  chat: {
+    description: 'StreamingChat component and the /api/stream SSE route',
+    files: [
+      'src/components/StreamingChat.tsx',
+      'src/components/ChartDisplay.tsx',
+      'src/lib/mix-client.ts',
+      'src/lib/mix-config.ts',
+      'src/lib/mix-events.ts',
+      'src/lib/mix-streaming.ts',
+      'src/lib/mix-transcript.ts',
+      'src/routes/api/stream/$sessionId.ts',
+    ],
+    dependencies: ['mix-typescript-sdk', 'lucide-react', 'zod'],
+    env: ['MIX_SERVER_URL'],
+  },
+  upload: {
+    description: 'FileUploader drag-and-drop CSV input',
+    files: ['src/components/FileUploader.tsx'],
+    dependencies: ['lucide-react'],
+    env: [],
+  },
+  charts: {
+    description: 'ChartDisplay for ShowMedia tool output',
+    files: [
+      'src/components/ChartDisplay.tsx',
+      'src/lib/mix-events.ts',
+      'src/lib/mix-streaming.ts',
+    ],
+    dependencies: ['mix-typescript-sdk', 'lucide-react', 'zod'],
+    env: [],
+  },
+  sessions: {
+    description: 'Mix client and server functions to create and delete sessions',
+    files: [
+      'src/lib/mix-client.ts',
+      'src/lib/mix-config.ts',
+      'src/lib/mix-sessions.ts',
+    ],
+    dependencies: ['mix-typescript-sdk', 'zod'],
+    env: ['MIX_SERVER_URL'],
+  },
+};
+
+// Written to .env.example with their comments when a feature needs them
+export const ENV_VARIABLES = {
+  MIX_SERVER_URL: {
+    comments: ['Mix Server URL', 'The Mix server handles API keys internally'],
+    value: DEFAULT_MIX_SERVER_URL,
+  },
+};
@@ -0,0 +1,407 @@
+import path from 'node:path';
+
+/**
+ * Generators for `create-mix-tstart generate`. Each one turns a name into
+ * source files written in the project's style (tabs, double quotes, `@/`
+ * imports), a vitest test next to them, and the `add` features it relies on.
+ *
+ * Route tests are named `-<route>.test.tsx`: the router ignores files that
+ * start with "-", so they can sit next to the route without becoming one.
+ */
+export const GENERATORS = {
+  route: {
+    description: 'Page route, e.g. "dashboard" or "reports/$id"',
+    generate: generateRoute,
+  },
+  'api-route': {
+    description: 'Server route under /api with GET and POST handlers',
+    generate: generateApiRoute,
+  },
+  'server-fn': {
+    description: 'Server function in src/lib, e.g. "getReport"',
+    generate: generateServerFn,
+  },
+  'mix-page': {
+    description: 'Page that uploads a CSV to a new Mix session and streams the analysis',
+    generate: generateMixPage,
+  },
+};
+
+function generateRoute(name) {
+  const route = parseRoute(name);
+  const params = route.params.map(param => `{${param}}`).join(' ');
+  const paramsLine = route.params.length > 0 ? `\tconst { ${route.params.join(', ')} } = Route.useParams();\n\n` : '';
+  const paramsMarkup = route.params.length > 0 ? `\n\t\t\t<p className="text-muted-foreground">${params}</p>` : '';
+  const mockParams = route.params.length > 0
+    ? `\t\tvi.spyOn(Route, "useParams").mockReturnValue({ ${route.params.map(param => `${param}: "1"`).join(', ')} } as never);\n`
+    : '';
+
+  return {
+    files: [
+      {
+        path: route.file,
+        contents: `import { createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("${route.path}")({
+	component: ${route.component},
+});
+
+function ${route.component}() {
+${paramsLine}	return (
+		<main className="min-h-screen p-8">
+			<h1 className="text-2xl font-semibold">${route.title}</h1>${paramsMarkup}
+		</main>
+	);
+}
+`,
+      },
+      {
+        path: route.testFile,
+        contents: `// @vitest-environment jsdom
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it${route.params.length > 0 ? ', vi' : ''} } from "vitest";
+import { Route } from "./${route.base}";
+
+describe("${route.path}", () => {
+	it("renders the page heading", () => {
+${mockParams}		const Page = Route.options.component;
+		if (!Page) throw new Error("Route has no component");
+
+		render(<Page />);
+
+		expect(screen.getByRole("heading", { name: "${route.title}" })).toBeTruthy();
+	});
+});
+`,
+      },
+    ],
+    features: [],
+    routes: true,
+  };
+}
+
+function generateApiRoute(name) {
+  const route = parseRoute(name.replace(/^\/?api\//, ''), { prefix: 'api', extension: '.ts' });
+  const getBody = route.params.length > 0
+    ? `Response.json({ ${route.params.map(param => `${param}: params.${param}`).join(', ')} })`
+    : 'Response.json({ ok: true })';
+  const exampleUrl = `http://localhost${route.path.replace(/\$(\w+)/g, '1')}`;
+  const exampleParams = `{ ${route.params.map(param => `${param}: "1"`).join(', ')} }`.replace('{  }', '{}');
+  const expectedGet = route.params.length > 0
+    ? `{ ${route.params.map(param => `${param}: "1"`).join(', ')} }`
+    : '{ ok: true }';
+
+  return {
+    files: [
+      {
+        path: route.file,
+        contents: `import { createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("${route.path}")({
+	server: {
+		handlers: {
+			GET: async (${route.params.length > 0 ? '{ params }' : ''}) => {
+				return ${getBody};
+			},
+			POST: async ({ request }) => {
+				const body = await request.json();
+				return Response.json({ received: body }, { status: 201 });
+			},
+		},
+	},
+});
+`,
+      },
+      {
+        path: route.testFile,
+        contents: `import { describe, expect, it } from "vitest";
+import { Route } from "./${route.base}";
+
+type Handler = (context: {
+	request: Request;
+	params: Record<string, string>;
+}) => Promise<Response>;
+
+// The handler context is built by the server at runtime; tests pass the parts they use
+const handlers = Route.options.server?.handlers as unknown as Record<
+	"GET" | "POST",
+	Handler
+>;
+
+describe("${route.path}", () => {
+	it("responds to GET", async () => {
+		const response = await handlers.GET({
+			request: new Request("${exampleUrl}"),
+			params: ${exampleParams},
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual(${expectedGet});
+	});
+
+	it("echoes the body of a POST", async () => {
+		const response = await handlers.POST({
+			request: new Request("${exampleUrl}", {
+				method: "POST",
+				body: JSON.stringify({ hello: "mix" }),
+			}),
+			params: ${exampleParams},
+		});
+
+		expect(response.status).toBe(201);
+		expect(await response.json()).toEqual({ received: { hello: "mix" } });
+	});
+});
+`,
+      },
+    ],
+    features: [],
+    routes: true,
+  };
+}
+
+function generateServerFn(name, { method = 'POST' } = {}) {
+  // The name becomes the exported function, so it has to make a JavaScript identifier
+  if (!/^[a-z]/.test(splitWords(name)[0] ?? '')) {
+    throw new Error(`Invalid server function name "${name}", use a name that starts with a letter, like "getReport"`);
+  }
+
+  const identifier = toCamelCase(name);
+  const type = `${toPascalCase(name)}Input`;
+  const file = toKebabCase(name);
+
+  return {
+    files: [
+      {
+        path: `src/lib/${file}.ts`,
+        contents: `import { createServerFn } from "@tanstack/react-start";
+
+export interface ${type} {
+	name: string;
+}
+
+/**
+ * The work behind ${identifier}, kept separate so it can be tested without a
+ * running server.
+ */
+export async function ${identifier}Handler(input: ${type}) {
+	return { message: \`Hello, \${input.name}\` };
+}
+
+export const ${identifier} = createServerFn({ method: "${method}" })
+	.inputValidator((data: ${type}) => data)
+	.handler(({ data }) => ${identifier}Handler(data));
+`,
+      },
+      {
+        path: `src/lib/${file}.test.ts`,
+        contents: `import { describe, expect, it } from "vitest";
+import { ${identifier}Handler } from "./${file}";
+
+describe("${identifier}", () => {
+	it("greets by name", async () => {
+		expect(await ${identifier}Handler({ name: "Mix" })).toEqual({
+			message: "Hello, Mix",
+		});
+	});
+});
+`,
+      },
+    ],
+    features: [],
+    routes: false,
+  };
+}
+
+function generateMixPage(name) {
+  const route = parseRoute(name);
+
+  if (route.params.length > 0) {
+    throw new Error('Mix pages cannot have path parameters');
+  }
+
+  return {
+    files: [
+      {
+        path: route.file,
+        contents: `import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { FileUploader } from "@/components/FileUploader";
+import { StreamingChat } from "@/components/StreamingChat";
+import { createMixSession } from "@/lib/mix-sessions";
+
+export const Route = createFileRoute("${route.path}")({
+	component: ${route.component},
+});
+
+interface Analysis {
+	sessionId: string;
+	message: string;
+}
+
+function ${route.component}() {
+	const [analysis, setAnalysis] = useState<Analysis | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	// Each upload gets its own Mix session, so earlier files do not leak into the answer
+	async function handleFileSelect(file: File) {
+		setError(null);
+
+		try {
+			const [csv, session] = await Promise.all([
+				file.text(),
+				createMixSession({ data: { title: file.name } }),
+			]);
+
+			setAnalysis({
+				sessionId: session.id,
+				message: \`Analyze this CSV file (\${file.name}):\\n\\n\${csv}\`,
+			});
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	return (
+		<main className="mx-auto max-w-4xl space-y-6 p-8">
+			<h1 className="text-2xl font-semibold">${route.title}</h1>
+
+			{analysis ? (
+				<>
+					<StreamingChat
+						sessionId={analysis.sessionId}
+						message={analysis.message}
+					/>
+					<button
+						type="button"
+						className="text-sm underline"
+						onClick={() => setAnalysis(null)}
+					>
+						Analyze another file
+					</button>
+				</>
+			) : (
+				<FileUploader onFileSelect={handleFileSelect} />
+			)}
+
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</main>
+	);
+}
+`,
+      },
+      {
+        path: route.testFile,
+        contents: `// @vitest-environment jsdom
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { Route } from "./${route.base}";
+
+vi.mock("@/lib/mix-sessions", () => ({
+	createMixSession: vi.fn(async () => ({ id: "session-1" })),
+}));
+
+// The real component opens an EventSource, which jsdom does not have
+vi.mock("@/components/StreamingChat", () => ({
+	StreamingChat: ({ sessionId }: { sessionId: string }) => (
+		<p>Streaming {sessionId}</p>
+	),
+}));
+
+describe("${route.path}", () => {
+	it("starts a Mix session for an uploaded CSV", async () => {
+		const Page = Route.options.component;
+		if (!Page) throw new Error("Route has no component");
+
+		const { container } = render(<Page />);
+		const input = container.querySelector('input[type="file"]');
+		if (!input) throw new Error("No file input");
+
+		// jsdom's File has no text(), so give the upload one
+		const file = Object.assign(new File([], "data.csv", { type: "text/csv" }), {
+			text: async () => "a,b\\n1,2",
+		});
+		fireEvent.change(input, { target: { files: [file] } });
+
+		expect(await screen.findByText("Streaming session-1")).toBeTruthy();
+	});
+});
+`,
+      },
+    ],
+    features: ['upload', 'chat', 'sessions'],
+    routes: true,
+  };
+}
+
+/**
+ * Work out the file, URL path and names for a route like "reports/$id".
+ * "index" segments map to a trailing slash, as in TanStack's file routes.
+ */
+function parseRoute(name, { prefix = '', extension = '.tsx' } = {}) {
+  const segments = [prefix, ...name.split('/')].filter(Boolean);
+
+  // "." and ".." would point the files outside src/routes
+  if (segments.length === 0 || segments.some(segment => !/^[\w$.-]+$/.test(segment) || /^\.+$/.test(segment))) {
+    throw new Error(`Invalid route "${name}", use path segments like "reports/$id"`);
+  }
+
+  const base = segments[segments.length - 1];
+  const dir = ['src/routes', ...segments.slice(0, -1)].join('/');
+
+  if (path.posix.relative('src/routes', path.posix.join(dir, base)).startsWith('..')) {
+    throw new Error(`Invalid route "${name}", it must stay inside src/routes`);
+  }
+
+  // Segments name the component and params name variables, apart from the "$" splat
+  if (segments.some(segment => segment !== '$' && splitWords(segment).length === 0)) {
+    throw new Error(`Invalid route "${name}", each path segment needs a letter or digit`);
+  }
+  if (segments.some(segment => segment.startsWith('$') && segment !== '$' && !/^\$[A-Za-z_][\w]*$/.test(segment))) {
+    throw new Error(`Invalid route "${name}", path parameters like "$id" must be valid identifiers`);
+  }
+
+  const words = segments.filter(segment => segment !== 'index').map(segment => segment.replace(/^\$/, ''));
+  const titleSegment = segments.filter(segment => segment !== 'index' && !segment.startsWith('$')).pop();
+
+  const component = `${toPascalCase(words.join('-') || 'index')}Page`;
+  if (!/^[A-Z]/.test(component)) {
+    throw new Error(`Invalid route "${name}", it must start with a letter to name the page component`);
+  }
+
+  return {
+    base,
+    file: `${dir}/${base}${extension}`,
+    testFile: `${dir}/-${base}.test${extension}`,
+    path: `/${segments.map(segment => (segment === 'index' ? '' : segment)).join('/')}`,
+    params: segments.filter(segment => segment.startsWith('$') && segment.length > 1).map(segment => segment.slice(1)),
+    component,
+    title: titleSegment ? toWords(titleSegment) : 'Home',
+  };
+}
+
+function splitWords(name) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+function toPascalCase(name) {
+  return splitWords(name).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+function toCamelCase(name) {
+  const pascal = toPascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function toKebabCase(name) {
+  return splitWords(name).join('-');
+}
+
+function toWords(name) {
+  const words = splitWords(name).join(' ');
+  return words[0].toUpperCase() + words.slice(1);
+}
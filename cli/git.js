@@ -0,0 +1,54 @@
+import { execFileSync } from 'node:child_process';
+
+const INITIAL_COMMIT_MESSAGE = 'Initial commit from create-mix-tstart';
+
+/**
+ * Turn `directory` into a git repository with everything in it committed.
+ * The commit is authored from the user's git config. Never throws: the
+ * result says whether the repository was created and committed, or why not.
+ */
+export function initRepository(directory) {
+  const git = (...args) => execFileSync('git', args, {
+    cwd: directory,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    encoding: 'utf-8',
+  }).trim();
+
+  try {
+    git('--version');
+  } catch {
+    return { status: 'skipped', reason: 'git is not installed' };
+  }
+
+  // A project inside an existing repository, e.g. a monorepo, belongs to that repository
+  try {
+    if (git('rev-parse', '--is-inside-work-tree') === 'true') {
+      return { status: 'skipped', reason: 'already inside a git repository' };
+    }
+  } catch {
+    // Not a repository, which is what we want
+  }
+
+  try {
+    git('init');
+    git('add', '--all');
+  } catch (error) {
+    return { status: 'skipped', reason: describeGitError(error) };
+  }
+
+  try {
+    git('commit', '--no-verify', '--message', INITIAL_COMMIT_MESSAGE);
+  } catch (error) {
+    const reason = /Author identity unknown/.test(error.stderr)
+      ? 'set user.name and user.email in your git config to commit'
+      : describeGitError(error);
+    return { status: 'initialized', reason };
+  }
+
+  return { status: 'committed' };
+}
+
+// The first line of git's own message is the useful part
+function describeGitError(error) {
+  return (error.stderr || error.message).trim().split('\n')[0];
+}
@@ -0,0 +1,103 @@
+/**
+ * Minimal .gitignore-style matcher: comments, negation with "!", directory-only
+ * patterns ending in "/", patterns anchored by a leading or inner "/", and the
+ * "*", "?", "[...]" and "**" wildcards. Later rules override earlier ones.
+ */
+export function createIgnore(sources) {
+  const rules = sources.flatMap(parseIgnore);
+
+  // Paths are relative to the template root and use forward slashes
+  return function ignores(relativePath, isDirectory) {
+    let ignored = false;
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negate;
+      }
+    }
+
+    return ignored;
+  };
+}
+
+function parseIgnore(text) {
+  const rules = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    let negate = false;
+    if (line.startsWith('!')) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith('/')) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the template root
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const source = toRegExpSource(line);
+    rules.push({
+      negate,
+      directoryOnly,
+      regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+    });
+  }
+
+  return rules;
+}
+
+function toRegExpSource(pattern) {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (pattern.startsWith('**/', i) && (i === 0 || pattern[i - 1] === '/')) {
+      // Leading "**/" and inner "/**/" match zero or more directories
+      source += '(?:.*/)?';
+      i += 3;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      let set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (set.startsWith('!')) set = `^${set.slice(1)}`;
+      source += `[${set}]`;
+      i = end + 1;
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
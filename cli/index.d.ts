@@ -0,0 +1,153 @@
+import type { StdioOptions } from 'node:child_process';
+
+export type PackageManager = 'bun' | 'npm' | 'pnpm' | 'yarn';
+
+export type DeployTarget = 'netlify' | 'node' | 'docker';
+
+export type ConflictMode = 'error' | 'overwrite' | 'skip' | 'rename';
+
+/** What happens to one existing file the template would replace. */
+export type ConflictAction = 'overwrite' | 'skip' | 'rename';
+
+/**
+ * Decides how colliding files are handled. Gets the paths, relative to the
+ * target directory, and returns one mode for all of them or an action per file.
+ */
+export type ConflictResolver = (
+  files: string[],
+) =>
+  | ConflictMode
+  | Map<string, ConflictAction>
+  | Record<string, ConflictAction>
+  | Promise<ConflictMode | Map<string, ConflictAction> | Record<string, ConflictAction>>;
+
+export type ProgressEvent =
+  | { type: 'copied' }
+  | { type: 'install'; command: string }
+  | { type: 'installed' }
+  | { type: 'install-failed'; command: string; error: Error }
+  | { type: 'post-install'; commands: string[] }
+  | { type: 'post-install-failed'; command: string; error: Error }
+  | { type: 'git'; status: GitStatus; reason?: string }
+  | { type: 'rolled-back' }
+  | { type: 'kept-partial'; directory: string; backupDir?: string };
+
+/**
+ * `committed` when the project got a repository and a first commit,
+ * `initialized` when committing failed, e.g. without user.name and user.email.
+ */
+export type GitStatus = 'committed' | 'initialized' | 'skipped';
+
+export interface CreateProjectOptions {
+  /** Directory to create, or an existing directory to add the template to. */
+  directory: string;
+  /** Name written to package.json. Defaults to the directory's base name. */
+  projectName?: string;
+  /**
+   * `base` or an example name, with or without the `example:` prefix, or a
+   * path to a template directory or `.tgz`. Defaults to `base`.
+   */
+  template?: string;
+  /** Defaults to the package manager that ran the process, then bun. */
+  packageManager?: PackageManager;
+  /** Defaults to `netlify`. */
+  deployTarget?: DeployTarget;
+  /** Written to .env.example. Defaults to `http://localhost:8088`. */
+  mixServerUrl?: string;
+  /** Install dependencies and run the template's post-install steps. Defaults to true. */
+  install?: boolean;
+  /**
+   * Run `git init` and commit the project. Skipped when git is missing or the
+   * directory is already inside a repository. Defaults to true.
+   */
+  git?: boolean;
+  /** Replace an existing directory instead of adding the template to it. */
+  force?: boolean;
+  /** Existing files the template would replace. Defaults to `error`. */
+  onConflict?: ConflictMode | ConflictResolver;
+  /** Leave partial output in place when scaffolding fails. */
+  keepOnFailure?: boolean;
+  /** Output of the install and post-install commands. Defaults to `ignore`. */
+  stdio?: StdioOptions;
+  onProgress?: (event: ProgressEvent) => void;
+  /**
+   * Cancels scaffolding: the project is rolled back and the promise rejects
+   * with a `CancelledError`. Signals such as SIGINT are left to the caller.
+   */
+  signal?: AbortSignal;
+}
+
+export interface CreateProjectResult {
+  projectName: string;
+  /** Absolute path of the project. */
+  directory: string;
+  template: string;
+  packageManager: PackageManager;
+  deployTarget: DeployTarget;
+  /** False when installing was skipped or failed. */
+  installed: boolean;
+  git: GitStatus;
+  /** Environment variables the template needs in .env. */
+  requiredEnv: string[];
+  /** Shell commands to run next; lines starting with `#` are instructions. */
+  nextSteps: string[];
+}
+
+export declare const CONFLICT_MODES: ConflictMode[];
+
+/**
+ * Scaffold a project without prompting. Anything written is rolled back
+ * before the returned promise rejects.
+ */
+export declare function createProject(options: CreateProjectOptions): Promise<CreateProjectResult>;
+
+export type CreateProjectErrorCode =
+  | 'INVALID_OPTION'
+  | 'TARGET_DIRECTORY'
+  | 'FILE_CONFLICT'
+  | 'ENGINE_MISMATCH'
+  | 'TEMPLATE_INVALID'
+  | 'CANCELLED';
+
+export declare class CreateProjectError extends Error {
+  readonly code: CreateProjectErrorCode;
+  /** Exit status the CLI uses for this error. */
+  readonly exitCode: number;
+}
+
+/** An option has a value that is not accepted, e.g. an unknown template. */
+export declare class InvalidOptionError extends CreateProjectError {
+  readonly code: 'INVALID_OPTION';
+  readonly option: keyof CreateProjectOptions;
+}
+
+/** The target exists but is not a directory, or `force` was used on the working directory. */
+export declare class TargetDirectoryError extends CreateProjectError {
+  readonly code: 'TARGET_DIRECTORY';
+  readonly directory: string;
+}
+
+/** Template files would replace different existing files and `onConflict` is `error`. */
+export declare class FileConflictError extends CreateProjectError {
+  readonly code: 'FILE_CONFLICT';
+  readonly directory: string;
+  readonly files: string[];
+}
+
+/** The running Node or Bun is older than the template requires. */
+export declare class EngineError extends CreateProjectError {
+  readonly code: 'ENGINE_MISMATCH';
+  readonly template: string;
+  readonly problems: string[];
+}
+
+/** The template has an invalid template.json or files the CLI cannot adapt. */
+export declare class TemplateError extends CreateProjectError {
+  readonly code: 'TEMPLATE_INVALID';
+  readonly template: string;
+}
+
+/** `signal` was aborted, an install was interrupted, or a prompt was cancelled. */
+export declare class CancelledError extends CreateProjectError {
+  readonly code: 'CANCELLED';
+}
@@ -0,0 +1,11 @@
+// Public API, for tools that scaffold projects without going through the CLI
+export { CONFLICT_MODES, createProject } from './create-project.js';
+export {
+  CancelledError,
+  CreateProjectError,
+  EngineError,
+  FileConflictError,
+  InvalidOptionError,
+  TargetDirectoryError,
+  TemplateError,
+} from './errors.js';
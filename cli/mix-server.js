@@ -0,0 +1,24 @@
+/**
+ * Check that a Mix server answers on its health endpoint.
+ * Never throws: the result says whether it was reachable and why not.
+ */
+export async function probeMixServer(serverUrl, timeoutMs) {
+  const url = new URL('/health', serverUrl);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    return {
+      reachable: true,
+      ok: response.ok,
+      status: response.status,
+      latencyMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      ok: false,
+      error: error.name === 'TimeoutError' ? `no response within ${timeoutMs}ms` : (error.cause?.code ?? error.message),
+    };
+  }
+}
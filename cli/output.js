@@ -0,0 +1,21 @@
+import kleur from 'kleur';
+
+// Human-readable output goes to stderr in --json mode so stdout stays parseable
+let jsonOutput = false;
+
+export function setJsonOutput(enabled) {
+  jsonOutput = enabled;
+}
+
+export function log(...args) {
+  if (jsonOutput) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+export function fail(message, exitCode = 1) {
+  console.error(kleur.red(`\n✖ ${message}`));
+  process.exit(exitCode);
+}
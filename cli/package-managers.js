@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const PACKAGE_MANAGERS = ['bun', 'npm', 'pnpm', 'yarn'];
+
+export function getInstallCommand(packageManager) {
+  return packageManager === 'yarn' ? 'yarn' : `${packageManager} install`;
+}
+
+export function getDevCommand(packageManager) {
+  return getRunCommand(packageManager, 'dev');
+}
+
+// pnpm and yarn run package.json scripts without "run"
+export function getRunCommand(packageManager, script) {
+  return packageManager === 'bun' || packageManager === 'npm' ? `${packageManager} run ${script}` : `${packageManager} ${script}`;
+}
+
+// The lockfile each package manager writes
+export function getLockfile(packageManager) {
+  return Object.keys(LOCKFILES).find(lockfile => LOCKFILES[lockfile] === packageManager);
+}
+
+// Remote packages are downloaded for one run; local ones come from node_modules/.bin
+export function getExecCommand(packageManager, local) {
+  if (packageManager === 'bun') return 'bunx';
+  if (packageManager === 'npm') return 'npx';
+  return local ? `${packageManager} exec` : `${packageManager} dlx`;
+}
+
+/**
+ * The package manager that ran the CLI, e.g. "pnpm" for `pnpm create
+ * mix-tstart`, read from the user agent string package managers set for
+ * the scripts they run.
+ */
+export function detectInvokingPackageManager(userAgent = process.env.npm_config_user_agent) {
+  const name = userAgent?.split('/')[0];
+  return PACKAGE_MANAGERS.includes(name) ? name : null;
+}
+
+/**
+ * Rewrite the bun, bunx, npx and pnpx commands templates are written with for
+ * another package manager. `bun <name>` is only touched when `name` is one
+ * of the project's scripts or dependency binaries, so prose is left alone.
+ */
+export function rewriteCommands(text, packageManager, packageJson = {}) {
+  const scripts = Object.keys(packageJson.scripts ?? {});
+  const dependencies = Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies });
+  const isLocal = (bin) => dependencies.some(name => name === bin || name.endsWith(`/${bin}`));
+  const exec = (bin) => `${getExecCommand(packageManager, isLocal(bin))} ${bin}`;
+
+  return text
+    .replace(/\bbun install\b/g, () => getInstallCommand(packageManager))
+    .replace(/\bbun run ([\w:-]+)/g, (_, script) => getRunCommand(packageManager, script))
+    // --bun only means something to bunx, so it is kept for bun and dropped otherwise
+    .replace(/\b(?:bunx|pnpx|npx|pnpm dlx)( --bun)? (\S+)/g, (_, flag, bin) => {
+      return packageManager === 'bun' && flag ? `bunx --bun ${bin}` : exec(bin);
+    })
+    .replace(/(?<!-)\bbun ([\w:-]+)/g, (match, name) => {
+      if (scripts.includes(name)) return getRunCommand(packageManager, name);
+      return isLocal(name) ? exec(name) : match;
+    });
+}
+
+const LOCKFILES = {
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun',
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'package-lock.json': 'npm',
+};
+
+export function isLockfile(file) {
+  return Object.hasOwn(LOCKFILES, file);
+}
+
+// Guess the package manager an existing project uses from its lockfile
+export function detectPackageManager(dir) {
+  for (const [lockfile, packageManager] of Object.entries(LOCKFILES)) {
+    if (fs.existsSync(path.join(dir, lockfile))) {
+      return packageManager;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import zlib from 'node:zlib';
+
+const BLOCK_SIZE = 512;
+
+// Header field offsets and lengths
+const NAME = [0, 100];
+const MODE = [100, 8];
+const SIZE = [124, 12];
+const CHECKSUM = [148, 8];
+const TYPE = 156;
+const PREFIX = [345, 155];
+
+/**
+ * Unpack a gzipped tarball, such as one made by `npm pack`, into `dest`.
+ * Handles files, directories and the long names and sizes written by ustar,
+ * GNU tar and pax. Links and devices are skipped. Throws on a corrupt or
+ * truncated archive and refuses entries that would land outside `dest`.
+ */
+export function extractTarball(file, dest) {
+  const data = zlib.gunzipSync(fs.readFileSync(file));
+  const root = path.resolve(dest);
+  let offset = 0;
+  let longName = null;
+  let paxSize = null;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    // The archive ends with empty blocks
+    if (header.every(byte => byte === 0)) break;
+
+    if (!hasValidChecksum(header)) {
+      throw new Error(`${path.basename(file)} is corrupt: bad header checksum at byte ${offset}`);
+    }
+
+    const size = paxSize ?? readNumber(header, ...SIZE);
+    const type = header[TYPE] === 0 ? '0' : String.fromCharCode(header[TYPE]);
+    const start = offset + BLOCK_SIZE;
+    const body = data.subarray(start, start + size);
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (body.length < size) {
+      throw new Error(`${path.basename(file)} is truncated`);
+    }
+
+    // GNU long name and pax headers describe the entry that follows
+    if (type === 'L') {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      const records = readPaxRecords(body);
+      longName = records.path ?? longName;
+      paxSize = records.size === undefined ? null : Number(records.size);
+      continue;
+    }
+    // Global pax headers only carry defaults we do not use
+    if (type === 'g') continue;
+
+    const prefix = readString(header, ...PREFIX);
+    const shortName = readString(header, ...NAME);
+    const name = longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+    longName = null;
+    paxSize = null;
+
+    const target = path.resolve(root, name);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to extract "${name}" outside ${dest}`);
+    }
+
+    if (type === '5') {
+      fs.mkdirSync(target, { recursive: true });
+    } else if (type === '0' || type === '7') {
+      const mode = (readNumber(header, ...MODE) || 0o644) & 0o777;
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, body, { mode: mode | 0o600 });
+    }
+  }
+}
+
+// The checksum is the sum of the header bytes with its own field read as spaces.
+// Old tars summed signed bytes, so either sum is accepted
+function hasValidChecksum(header) {
+  const [start, length] = CHECKSUM;
+  const expected = readNumber(header, start, length);
+  let unsigned = 0;
+  let signed = 0;
+
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = i >= start && i < start + length ? 0x20 : header[i];
+    unsigned += byte;
+    signed += byte > 127 ? byte - 256 : byte;
+  }
+
+  return expected === unsigned || expected === signed;
+}
+
+// Numbers are NUL- or space-terminated octal, or base-256 when the high bit of the first byte is set
+function readNumber(buffer, start, length) {
+  const field = buffer.subarray(start, start + length);
+
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (const byte of field.subarray(1)) {
+      value = value * 256 + byte;
+    }
+    return value;
+  }
+
+  const text = readString(buffer, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+// Header fields are NUL-padded
+function readString(buffer, start, length) {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+// Pax records look like "30 path=some/long/file/name\n"
+function readPaxRecords(body) {
+  const records = {};
+  for (const match of body.toString('utf-8').matchAll(/^\d+ ([^=\n]+)=(.*)$/gm)) {
+    records[match[1]] = match[2];
+  }
+  return records;
+}
@@ -0,0 +1,476 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { execSync } from 'node:child_process';
+import { applyDeployTarget, DEFAULT_DEPLOY_TARGET, getDeployInstructions } from './deploy-targets.js';
+import { InvalidOptionError, TemplateError } from './errors.js';
+import { createIgnore } from './ignore.js';
+import {
+  getDevCommand,
+  getInstallCommand,
+  getLockfile,
+  isLockfile,
+  rewriteCommands,
+} from './package-managers.js';
+import { extractTarball } from './tar.js';
+
+// The package root doubles as the base template
+export const PACKAGE_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const DEFAULT_MIX_SERVER_URL = 'http://localhost:8088';
+
+// Per-template metadata, read from the template root and never copied
+export const MANIFEST_FILE = 'template.json';
+
+// Which template files are left out of generated projects, in .gitignore syntax
+export const IGNORE_FILE = '.templateignore';
+
+// Package files that sit in the base template's directory without being part of it.
+// Only the base template leaves them out, so an example can have its own cli/ or scaffold/
+const PACKAGE_ONLY_FILES = ['/cli.js', '/cli/', '/examples/', '/scaffold/', '/requests.jsonl', '/.cta.json'];
+
+// Written into each project so `upgrade` knows what it was created from
+export const PROJECT_RECORD_FILE = '.mix-tstart.json';
+
+export const CLI_VERSION = JSON.parse(fs.readFileSync(path.join(PACKAGE_ROOT, 'package.json'), 'utf-8')).version;
+
+/**
+ * List the base template and every example, each with its parsed manifest.
+ * The base template is always first so it can serve as the default.
+ */
+export function discoverTemplates(root = PACKAGE_ROOT) {
+  const templates = [
+    { name: 'base', value: 'base', dir: root, root },
+  ];
+
+  const examplesDir = path.join(root, 'examples');
+  if (fs.existsSync(examplesDir)) {
+    for (const name of fs.readdirSync(examplesDir).sort()) {
+      const dir = path.join(examplesDir, name);
+      if (fs.statSync(dir).isDirectory()) {
+        templates.push({ name, value: `example:${name}`, dir, root });
+      }
+    }
+  }
+
+  return templates.map(t => ({ ...t, manifest: readManifest(t.dir, t.name) }));
+}
+
+const TARBALL = /\.(tgz|tar\.gz)$/;
+
+// Tarballs already unpacked in this process, by absolute path, with their template directory
+const unpackedTarballs = new Map();
+
+/**
+ * Whether a `--template` value points at a directory or tarball rather
+ * than naming a built-in template: anything path-like or ending in .tgz.
+ */
+export function isLocalTemplate(source) {
+  return TARBALL.test(source) || source.startsWith('.') || source.includes('/') || source.includes('\\') || path.isAbsolute(source);
+}
+
+/**
+ * Load a template kept outside this package, from a directory or a .tgz.
+ * Tarballs are unpacked into a temporary directory that is removed on exit;
+ * a single top-level folder, like the `package/` of `npm pack`, is the
+ * template. Local templates go through the same ignore rules and rewrites
+ * as examples.
+ */
+export function readLocalTemplate(source) {
+  const resolved = path.resolve(source);
+
+  if (!fs.existsSync(resolved)) {
+    throw new InvalidOptionError('template', `Template "${source}" does not exist`);
+  }
+
+  let dir = resolved;
+  if (!fs.statSync(resolved).isDirectory()) {
+    if (!TARBALL.test(resolved)) {
+      throw new InvalidOptionError('template', `Template "${source}" must be a directory or a .tgz file`);
+    }
+    dir = unpackTarball(resolved, source);
+  }
+
+  const packageJsonPath = path.join(dir, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    throw new TemplateError(source, `Template "${source}" has no package.json`);
+  }
+
+  let packageJson;
+  try {
+    packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch (error) {
+    throw new TemplateError(source, `Invalid package.json in template "${source}": ${error.message}`);
+  }
+
+  const name = typeof packageJson.name === 'string' ? packageJson.name : path.basename(resolved).replace(TARBALL, '');
+
+  return { name, value: source, dir, root: dir, local: true, manifest: readManifest(dir, name) };
+}
+
+function unpackTarball(file, source) {
+  if (unpackedTarballs.has(file)) {
+    return unpackedTarballs.get(file).dir;
+  }
+
+  if (unpackedTarballs.size === 0) {
+    process.on('exit', () => {
+      for (const { tempDir } of unpackedTarballs.values()) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mix-tstart-template-'));
+  unpackedTarballs.set(file, { tempDir, dir: tempDir });
+
+  try {
+    extractTarball(file, tempDir);
+  } catch (error) {
+    throw new TemplateError(source, `Could not unpack template "${source}": ${error.message}`);
+  }
+
+  const entries = fs.readdirSync(tempDir);
+  const dir = entries.length === 1 && fs.statSync(path.join(tempDir, entries[0])).isDirectory()
+    ? path.join(tempDir, entries[0])
+    : tempDir;
+
+  unpackedTarballs.set(file, { tempDir, dir });
+  return dir;
+}
+
+/**
+ * Read and validate `template.json`. Templates without one get defaults
+ * so plain directories under examples/ keep working.
+ */
+export function readManifest(dir, name) {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  let raw = {};
+
+  if (fs.existsSync(manifestPath)) {
+    try {
+      raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (error) {
+      throw new TemplateError(name, `Invalid ${MANIFEST_FILE} for template "${name}": ${error.message}`);
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new TemplateError(name, `Invalid ${MANIFEST_FILE} for template "${name}": expected a JSON object, not ${Array.isArray(raw) ? 'an array' : JSON.stringify(raw)}`);
+    }
+  }
+
+  const manifest = {
+    title: raw.title ?? name,
+    description: raw.description ?? '',
+    tags: raw.tags ?? [],
+    env: Array.isArray(raw.env) ? raw.env.map(v => (typeof v === 'string' ? { name: v } : v)) : raw.env ?? [],
+    files: raw.files ?? [],
+    postInstall: raw.postInstall ?? [],
+    nextSteps: raw.nextSteps ?? [],
+    engines: raw.engines ?? {},
+  };
+
+  const problems = [];
+  if (typeof manifest.title !== 'string') problems.push('"title" must be a string');
+  if (typeof manifest.description !== 'string') problems.push('"description" must be a string');
+  if (!isStringArray(manifest.tags)) problems.push('"tags" must be an array of strings');
+  if (!Array.isArray(manifest.env) || manifest.env.some(v => !v || typeof v.name !== 'string')) {
+    problems.push('"env" must be an array of variable names or { name, description, required } objects');
+  }
+  if (!Array.isArray(manifest.files) || manifest.files.some(f => !f || typeof f.path !== 'string' || (typeof f.from !== 'string' && typeof f.content !== 'string' && !isStringMap(f.replace)))) {
+    problems.push('"files" must be an array of { path, from }, { path, content } or { path, replace } objects');
+  } else {
+    // Entries are written into the project and read from the template, so neither may leave its directory
+    for (const file of manifest.files) {
+      if (!isInside(file.path)) problems.push(`"files" path "${file.path}" must stay inside the project`);
+      if (typeof file.from === 'string' && !isInside(file.from)) problems.push(`"files" from "${file.from}" must stay inside the template`);
+    }
+  }
+  if (!isStringArray(manifest.postInstall)) problems.push('"postInstall" must be an array of commands');
+  if (!isStringArray(manifest.nextSteps)) problems.push('"nextSteps" must be an array of strings');
+  if (typeof manifest.engines !== 'object' || Object.values(manifest.engines).some(v => typeof v !== 'string')) {
+    problems.push('"engines" must map "node" or "bun" to a minimum version');
+  }
+
+  if (problems.length > 0) {
+    throw new TemplateError(name, `Invalid ${MANIFEST_FILE} for template "${name}":\n  ${problems.join('\n  ')}`);
+  }
+
+  return manifest;
+}
+
+function isStringArray(value) {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Whether a relative path names something below the directory it is resolved against
+function isInside(relativePath) {
+  const normalized = path.normalize(relativePath);
+  return !path.isAbsolute(normalized) && normalized !== '.' && normalized !== '..' && !normalized.startsWith(`..${path.sep}`);
+}
+
+function isStringMap(value) {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+/**
+ * Compare the running Node version, and the Bun version when bun is the
+ * chosen package manager, against the manifest's minimums.
+ */
+export function checkEngines(manifest, packageManager) {
+  const problems = [];
+  const { node, bun } = manifest.engines;
+
+  if (node && !satisfiesMinimum(process.versions.node, node)) {
+    problems.push(`Node ${node} (found ${process.versions.node})`);
+  }
+
+  if (bun && packageManager === 'bun') {
+    let bunVersion = null;
+    try {
+      bunVersion = execSync('bun --version', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+    } catch {
+      // Reported below as not found
+    }
+    if (!bunVersion || !satisfiesMinimum(bunVersion, bun)) {
+      problems.push(`Bun ${bun} (found ${bunVersion ?? 'none'})`);
+    }
+  }
+
+  return problems;
+}
+
+// Minimums are written as "20.19" or ">=20.19"; missing segments count as 0
+function satisfiesMinimum(version, minimum) {
+  const parse = (v) => v.replace(/^[>=v\s]+/, '').split('.').map(n => parseInt(n, 10) || 0);
+  const actual = parse(version);
+  const required = parse(minimum);
+
+  for (let i = 0; i < Math.max(actual.length, required.length); i++) {
+    const a = actual[i] ?? 0;
+    const r = required[i] ?? 0;
+    if (a !== r) return a > r;
+  }
+
+  return true;
+}
+
+/**
+ * Read the files a template ships into `files`, keyed by their path relative
+ * to the template root. Nothing is written, so the same listing can be
+ * previewed with `--dry-run` or written out by `renderProject()`.
+ */
+export function copyTemplate(src, files, ignores, root = src) {
+  for (const entry of fs.readdirSync(src, { withFileTypes: true })) {
+    const srcPath = path.join(src, entry.name);
+    const relativePath = path.relative(root, srcPath).split(path.sep).join('/');
+
+    // Template metadata is never shipped, whatever the ignore files say
+    if (src === root && (entry.name === MANIFEST_FILE || entry.name === IGNORE_FILE)) {
+      continue;
+    }
+
+    // Symlinks are copied as the file they point to. Linked directories and
+    // broken links are skipped, since following them can loop or leave the template
+    const stats = entry.isSymbolicLink() ? fs.statSync(srcPath, { throwIfNoEntry: false }) : entry;
+    if (!stats || (entry.isSymbolicLink() && stats.isDirectory())) {
+      continue;
+    }
+
+    if (ignores(relativePath, stats.isDirectory())) {
+      continue;
+    }
+
+    if (stats.isDirectory()) {
+      copyTemplate(srcPath, files, ignores, root);
+    } else {
+      files.set(relativePath, {
+        contents: fs.readFileSync(srcPath),
+        mode: fs.statSync(srcPath).mode,
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * The package's `.templateignore` applies to every template, local ones
+ * included. A template's own file is read after it, so it can add patterns
+ * or re-include files with `!pattern`. The base template also leaves out
+ * the CLI and the other templates it shares the package root with.
+ */
+export function readTemplateIgnore(template) {
+  const sharedDir = template.local ? PACKAGE_ROOT : template.root;
+  const ignoreFiles = [path.join(sharedDir, IGNORE_FILE)];
+  if (template.dir !== sharedDir) {
+    ignoreFiles.push(path.join(template.dir, IGNORE_FILE));
+  }
+
+  const sources = ignoreFiles.filter(f => fs.existsSync(f)).map(f => fs.readFileSync(f, 'utf-8'));
+  if (template.dir === template.root && !template.local) {
+    sources.push(PACKAGE_ONLY_FILES.join('\n'));
+  }
+
+  return createIgnore(sources);
+}
+
+/**
+ * Add the manifest's extra files to the project, either copied or inline.
+ * `replace` entries rewrite a file the template already ships, swapping
+ * literal text for placeholders, so the package's own files keep working
+ * values while the app runs in place.
+ */
+export function writeManifestFiles(template, files) {
+  for (const file of template.manifest.files) {
+    if (file.replace) {
+      if (!files.has(file.path)) {
+        throw new TemplateError(template.name, `Template "${template.name}" has replacements for "${file.path}", which it does not ship`);
+      }
+
+      const { contents, mode } = files.get(file.path);
+      let text = contents.toString('utf-8');
+
+      for (const [search, replacement] of Object.entries(file.replace)) {
+        // Fail loudly when the file changed, rather than shipping it without its placeholders
+        if (!text.includes(search)) {
+          throw new TemplateError(template.name, `Template "${template.name}" expects "${search}" in ${file.path}`);
+        }
+        text = text.split(search).join(replacement);
+      }
+
+      files.set(file.path, { contents: Buffer.from(text), mode });
+    } else if (typeof file.content === 'string') {
+      files.set(file.path, { contents: Buffer.from(file.content), mode: 0o644 });
+    } else {
+      const srcPath = path.join(template.dir, file.from);
+      files.set(file.path, { contents: fs.readFileSync(srcPath), mode: fs.statSync(srcPath).mode });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Replace `{{variable}}` placeholders in file contents and file names.
+ * Unknown placeholders are left alone so JSX like `style={{color}}` survives.
+ */
+export function renderTemplate(files, variables) {
+  const render = (text) => text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+    Object.hasOwn(variables, key) ? variables[key] : match
+  );
+
+  const rendered = new Map();
+
+  for (const [file, { contents, mode }] of files) {
+    rendered.set(render(file), {
+      contents: isBinary(contents) ? contents : Buffer.from(render(contents.toString('utf-8'))),
+      mode,
+    });
+  }
+
+  return rendered;
+}
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+export function isBinary(buffer) {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Build a project the way it gets written, without touching disk: files
+ * collected, manifest files added, variables substituted and CLI-only
+ * package.json fields removed. Returns a map of relative path to
+ * `{ contents, mode }`.
+ */
+export function buildProject(template, { projectName, packageManager, mixServerUrl, deployTarget = DEFAULT_DEPLOY_TARGET }) {
+  const collected = copyTemplate(template.dir, new Map(), readTemplateIgnore(template));
+  const files = renderTemplate(writeManifestFiles(template, collected), {
+    projectName,
+    packageManager,
+    mixServerUrl,
+    installCommand: getInstallCommand(packageManager),
+    devCommand: getDevCommand(packageManager),
+    deployInstructions: getDeployInstructions(deployTarget, packageManager, projectName),
+  });
+
+  // Update package.json name and remove CLI-specific fields
+  if (files.has('package.json')) {
+    const { contents, mode } = files.get('package.json');
+    const packageJson = JSON.parse(contents.toString('utf-8'));
+    packageJson.name = projectName;
+    packageJson.version = '0.0.0';
+    delete packageJson.bin;
+    delete packageJson.exports;
+    delete packageJson.files;
+
+    // Remove CLI dependencies
+    if (packageJson.dependencies) {
+      delete packageJson.dependencies.prompts;
+      delete packageJson.dependencies.kleur;
+    }
+
+    files.set('package.json', { contents: Buffer.from(JSON.stringify(packageJson, null, 2) + '\n'), mode });
+  }
+
+  applyDeployTarget(files, template, deployTarget, packageManager);
+  return applyPackageManager(files, packageManager);
+}
+
+// Files whose commands are rewritten for the chosen package manager
+const COMMAND_FILES = ['Makefile', 'Procfile', 'Procfile.dev', 'README.md', '.cursorrules'];
+
+// Keep only the chosen package manager's lockfile and point scripts and docs at it
+function applyPackageManager(files, packageManager) {
+  for (const file of files.keys()) {
+    if (isLockfile(file) && file !== getLockfile(packageManager)) {
+      files.delete(file);
+    }
+  }
+
+  const packageJson = files.has('package.json') ? JSON.parse(files.get('package.json').contents.toString('utf-8')) : {};
+
+  for (const file of COMMAND_FILES) {
+    if (!files.has(file)) continue;
+    const { contents, mode } = files.get(file);
+    files.set(file, { contents: Buffer.from(rewriteCommands(contents.toString('utf-8'), packageManager, packageJson)), mode });
+  }
+
+  return files;
+}
+
+/**
+ * Write a template into `dest` the way a new project gets it. `upgrade`
+ * uses the same steps to rebuild old and new template versions for
+ * comparison.
+ */
+export function renderProject(template, dest, variables) {
+  fs.mkdirSync(dest, { recursive: true });
+
+  for (const [file, { contents, mode }] of buildProject(template, variables)) {
+    const destPath = path.join(dest, file);
+    fs.mkdirSync(path.dirname(destPath), { recursive: true });
+    fs.writeFileSync(destPath, contents, { mode });
+  }
+}
+
+export function readProjectRecord(projectDir) {
+  const recordPath = path.join(projectDir, PROJECT_RECORD_FILE);
+  return fs.existsSync(recordPath) ? JSON.parse(fs.readFileSync(recordPath, 'utf-8')) : null;
+}
+
+export function writeProjectRecord(projectDir, record) {
+  fs.writeFileSync(path.join(projectDir, PROJECT_RECORD_FILE), JSON.stringify(record, null, 2) + '\n');
+}
+
+// Relative paths of every file under `dir`, using forward slashes
+export function listFiles(dir, prefix = '') {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relativePath = `${prefix}${entry.name}`;
+    return entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${relativePath}/`)
+      : [relativePath];
+  });
+}
@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { listFiles } from './templates.js';
+
+// Ctrl-C reaches the child too; some tools die from the signal, others exit with 130
+export function isInterrupted(error) {
+  return error.signal === 'SIGINT' || error.status === 130;
+}
+
+/**
+ * Track a scaffold into `targetDir` so it can be undone. Files are written to
+ * a hidden staging directory, then moved into place by `commit()`; anything
+ * they replace is kept aside until `finish()`. `rollback()` restores the
+ * previous state, also when the process exits first. Signals are left to the
+ * caller, which cancels and rolls back. Nothing is printed.
+ *
+ * By default the whole target directory is swapped in (or replaced, for
+ * --force). With `merge`, files are moved into an existing directory one by
+ * one, following the destinations passed to `commit()`.
+ */
+export function beginTransaction(targetDir, { keepOnFailure = false, merge = false } = {}) {
+  const target = path.resolve(targetDir);
+  // Work files sit next to a new directory, or inside one being merged into,
+  // so renames stay on one filesystem and are atomic
+  const workDir = merge ? target : path.dirname(target);
+  const prefix = merge ? '.mix-tstart' : `.${path.basename(target)}`;
+  const stagingDir = path.join(workDir, `${prefix}.staging-${process.pid}`);
+  const backupDir = path.join(workDir, `${prefix}.backup-${process.pid}`);
+  let hasBackup = false;
+  let committed = false;
+  let done = false;
+
+  // Merge mode: files moved into the target (with their backups) and directories created for them
+  const moves = [];
+  const createdDirs = [];
+  // Anything else new at the top level on rollback (node_modules, lockfiles) came from installing
+  const existingEntries = merge ? new Set(fs.readdirSync(target)) : null;
+
+  fs.mkdirSync(stagingDir, { recursive: true });
+
+  // The host may exit without unwinding, e.g. from its own signal handler
+  process.on('exit', rollback);
+
+  function settle() {
+    done = true;
+    process.off('exit', rollback);
+  }
+
+  /**
+   * Move the staged files into place. In merge mode `destinations` maps a
+   * staged file to where it should go, or to null to leave it out; files not
+   * listed keep their own path.
+   */
+  function commit(destinations = new Map()) {
+    committed = true;
+
+    if (!merge) {
+      if (fs.existsSync(target)) {
+        fs.renameSync(target, backupDir);
+        hasBackup = true;
+      }
+      fs.renameSync(stagingDir, target);
+      return;
+    }
+
+    for (const file of listFiles(stagingDir)) {
+      const destination = destinations.has(file) ? destinations.get(file) : file;
+      if (destination === null) continue;
+
+      const destPath = path.join(target, destination);
+      let backupPath = null;
+
+      createParentDirs(destPath);
+
+      if (fs.existsSync(destPath)) {
+        backupPath = path.join(backupDir, destination);
+        fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+        fs.renameSync(destPath, backupPath);
+        hasBackup = true;
+      }
+
+      fs.renameSync(path.join(stagingDir, file), destPath);
+      moves.push({ destPath, backupPath });
+    }
+
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+
+  function createParentDirs(filePath) {
+    const missing = [];
+    for (let dir = path.dirname(filePath); !fs.existsSync(dir); dir = path.dirname(dir)) {
+      missing.unshift(dir);
+    }
+    for (const dir of missing) {
+      fs.mkdirSync(dir);
+      createdDirs.push(dir);
+    }
+  }
+
+  function finish() {
+    settle();
+    if (hasBackup) {
+      fs.rmSync(backupDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Undo the scaffold. Returns what was left behind: nothing, or with
+   * `keepOnFailure` the partial project and where replaced files were moved.
+   */
+  function rollback() {
+    if (done) return { kept: false };
+    settle();
+
+    if (keepOnFailure) {
+      return {
+        kept: true,
+        directory: committed ? target : stagingDir,
+        backupDir: hasBackup ? backupDir : undefined,
+      };
+    }
+
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+
+    if (merge) {
+      for (const { destPath, backupPath } of moves.reverse()) {
+        fs.rmSync(destPath, { force: true });
+        if (backupPath) {
+          fs.renameSync(backupPath, destPath);
+        }
+      }
+      for (const dir of createdDirs.reverse()) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+      fs.rmSync(backupDir, { recursive: true, force: true });
+      for (const entry of fs.readdirSync(target)) {
+        if (!existingEntries.has(entry)) {
+          fs.rmSync(path.join(target, entry), { recursive: true, force: true });
+        }
+      }
+    } else {
+      if (committed) {
+        fs.rmSync(target, { recursive: true, force: true });
+      }
+      if (hasBackup) {
+        fs.renameSync(backupDir, target);
+      }
+    }
+
+    return { kept: false };
+  }
+
+  return { stagingDir, commit, finish, rollback };
+}
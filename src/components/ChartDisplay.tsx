@@ -2,11 +2,12 @@
  * Chart display component for rendering show_media tool outputs.
  */
 
+import type { ToolCall } from '@/lib/mix-events';
 import { parseShowMediaTool } from '@/lib/mix-streaming';
 import { BarChart3 } from 'lucide-react';
 
 interface ChartDisplayProps {
-  tool: any;
+  tool: Pick<ToolCall, 'name' | 'input'>;
 }
 
 export function ChartDisplay({ tool }: ChartDisplayProps) {
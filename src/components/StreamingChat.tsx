@@ -1,10 +1,13 @@
 /**
  * Streaming chat component that displays real-time AI responses.
+ * Stopping closes the stream, which cancels the message on the server.
  */
 
-import { useEffect, useState, useRef } from 'react';
-import { Loader2 } from 'lucide-react';
+import { useEffect, useReducer, useState, useRef } from 'react';
+import { Loader2, Square } from 'lucide-react';
 import { ChartDisplay } from '@/components/ChartDisplay';
+import type { StreamMessageEvent } from '@/lib/mix-streaming';
+import { createTranscript, reduceTranscript, type ToolCallBlock } from '@/lib/mix-transcript';
 
 interface StreamingChatProps {
   sessionId: string;
@@ -12,52 +15,53 @@ interface StreamingChatProps {
   onComplete?: () => void;
 }
 
+// Events the SSE route relays, and which of them end the message.
+// Cancelling only happens from this side, by closing the connection
+const RELAYED_EVENTS: StreamMessageEvent['event'][] = [
+  'thinking',
+  'content',
+  'tool',
+  'tool_execution_start',
+  'tool_execution_complete',
+  'permission',
+  'error',
+  'complete',
+];
+const FINAL_EVENTS: StreamMessageEvent['event'][] = ['error', 'complete'];
+
 export function StreamingChat({ sessionId, message, onComplete }: StreamingChatProps) {
-  const [content, setContent] = useState('');
-  const [thinking, setThinking] = useState('');
-  const [tools, setTools] = useState<any[]>([]);
-  const [isComplete, setIsComplete] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [transcript, dispatch] = useReducer(reduceTranscript, undefined, createTranscript);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   const contentEndRef = useRef<HTMLDivElement>(null);
-  const isCompleteRef = useRef(false);
+  const isFinishedRef = useRef(false);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
   useEffect(() => {
     const eventSource = new EventSource(
       `/api/stream/${sessionId}?message=${encodeURIComponent(message)}`
     );
+    eventSourceRef.current = eventSource;
 
-    eventSource.addEventListener('thinking', (e) => {
-      const data = JSON.parse(e.data);
-      setThinking(data.content || '');
-    });
-
-    eventSource.addEventListener('content', (e) => {
-      const data = JSON.parse(e.data);
-      setContent((prev) => prev + (data.content || ''));
-      setThinking('');
-    });
-
-    eventSource.addEventListener('tool', (e) => {
-      const data = JSON.parse(e.data);
-      setTools((prev) => [...prev, data]);
-    });
-
-    eventSource.addEventListener('error', (e) => {
-      const data = JSON.parse(e.data);
-      setError(data.error || 'An error occurred');
-      eventSource.close();
-    });
+    // The SSE route only relays events that passed validation
+    for (const name of RELAYED_EVENTS) {
+      eventSource.addEventListener(name, (e) => {
+        // The browser fires a plain `error` event of its own when the connection drops
+        if (!(e instanceof MessageEvent)) return;
 
-    eventSource.addEventListener('complete', () => {
-      isCompleteRef.current = true;
-      setIsComplete(true);
-      eventSource.close();
-      onComplete?.();
-    });
+        const event = { event: name, data: JSON.parse(e.data) } as StreamMessageEvent;
+        dispatch({ event, receivedAt: Date.now() });
+
+        if (FINAL_EVENTS.includes(name)) {
+          isFinishedRef.current = true;
+          eventSource.close();
+          if (name === 'complete') onComplete?.();
+        }
+      });
+    }
 
     eventSource.onerror = () => {
-      if (!isCompleteRef.current) {
-        setError('Connection error');
+      if (!isFinishedRef.current) {
+        setConnectionError('Connection error');
       }
       eventSource.close();
     };
@@ -67,6 +71,21 @@ export function StreamingChat({ sessionId, message, onComplete }: StreamingChatP
     };
   }, [sessionId, message]);
 
+  const stop = () => {
+    isFinishedRef.current = true;
+    eventSourceRef.current?.close();
+    dispatch({ event: { event: 'cancelled', data: {} }, receivedAt: Date.now() });
+  };
+
+  const { blocks, status } = transcript;
+  const content = blocks.map((block) => (block.type === 'text' ? block.text : '')).join('');
+  const lastBlock = blocks.at(-1);
+  const thinking = lastBlock?.type === 'thinking' ? lastBlock.text : '';
+  const tools = blocks.filter((block): block is ToolCallBlock => block.type === 'tool');
+  const error = transcript.error ?? connectionError;
+  const isCancelled = status === 'cancelled';
+  const isStreaming = status === 'streaming' && !error;
+
   useEffect(() => {
     contentEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [content, thinking]);
@@ -88,7 +107,7 @@ export function StreamingChat({ sessionId, message, onComplete }: StreamingChatP
       )}
 
       {/* Thinking Indicator */}
-      {thinking && !isComplete && (
+      {thinking && isStreaming && (
         <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400 text-sm">
           <Loader2 className="w-4 h-4 animate-spin" />
           <span className="italic">{thinking}</span>
@@ -98,8 +117,8 @@ export function StreamingChat({ sessionId, message, onComplete }: StreamingChatP
       {/* Charts/Media from show_media tool */}
       {tools.length > 0 && (
         <div className="space-y-6 mt-8">
-          {tools.map((tool, index) => (
-            <ChartDisplay key={index} tool={tool} />
+          {tools.map((tool) => (
+            <ChartDisplay key={tool.id} tool={tool} />
           ))}
         </div>
       )}
@@ -111,13 +130,34 @@ export function StreamingChat({ sessionId, message, onComplete }: StreamingChatP
         </div>
       )}
 
+      {/* Cancelled Notice */}
+      {isCancelled && (
+        <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          <p className="text-gray-600 dark:text-gray-400">Stopped before the response finished.</p>
+        </div>
+      )}
+
       {/* Loading Indicator */}
-      {!isComplete && !error && !content && (
+      {isStreaming && !content && (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="w-8 h-8 animate-spin" style={{ color: 'var(--color-mix-primary)' }} />
         </div>
       )}
 
+      {/* Stop Button */}
+      {isStreaming && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={stop}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <Square className="w-3 h-3" />
+            Stop
+          </button>
+        </div>
+      )}
+
       <div ref={contentEndRef} />
     </div>
   );
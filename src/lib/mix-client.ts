@@ -1,26 +1,38 @@
 /**
  * Mix SDK client singleton for server-side operations.
- * This module provides a configured Mix client instance.
+ * This module provides a Mix client configured from mix-config.ts.
+ * The client is created on first use, so importing this module never
+ * fails on a missing or invalid configuration.
  */
 
 import { Mix } from "mix-typescript-sdk";
+import { getMixConfig, type MixConfig } from "@/lib/mix-config";
 
 let mixClient: Mix | null = null;
 
 /**
  * Get or create a Mix client instance.
- * Uses environment variables for configuration.
+ * Throws a MixConfigError listing every problem when the configuration is invalid.
  */
 export function getMixClient(): Mix {
 	if (!mixClient) {
-		const serverURL = process.env.MIX_SERVER_URL;
-
-		if (!serverURL) {
-			throw new Error("MIX_SERVER_URL environment variable is not set");
-		}
+		const { serverUrl, timeouts, retry } = getMixConfig();
 
 		mixClient = new Mix({
-			serverURL,
+			serverURL: serverUrl,
+			timeoutMs: timeouts.requestMs,
+			retryConfig: retry.enabled
+				? {
+						strategy: "backoff",
+						backoff: {
+							initialInterval: retry.initialDelayMs,
+							maxInterval: retry.maxDelayMs,
+							exponent: retry.backoffFactor,
+							maxElapsedTime: retry.maxElapsedMs,
+						},
+						retryConnectionErrors: true,
+					}
+				: { strategy: "none" },
 		});
 	}
 
@@ -28,14 +40,15 @@ export function getMixClient(): Mix {
 }
 
 /**
- * Initialize Mix preferences with default settings.
+ * Initialize Mix preferences with the configured provider and model.
  * Call this once at app startup or per-session.
  */
-export async function initializeMixPreferences(mix: Mix) {
+export async function initializeMixPreferences(
+	mix: Mix,
+	config: MixConfig = getMixConfig(),
+) {
 	await mix.preferences.update({
-		preferredProvider: "anthropic",
-		mainAgentModel: "claude-sonnet-4-5",
+		preferredProvider: config.provider,
+		mainAgentModel: config.model,
 	});
 }
-
-export default getMixClient();
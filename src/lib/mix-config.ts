@@ -0,0 +1,213 @@
+/**
+ * Runtime configuration for the Mix integration.
+ * Values come from environment variables, then an optional mix.config.json,
+ * then defaults, and are validated together so every problem is reported at once.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { z } from "zod";
+
+// Numbers and booleans arrive as strings from the environment and as JSON values from the file
+const milliseconds = z.coerce.number().int().positive();
+const flag = z.union([z.boolean(), z.stringbool()], {
+	error: "Expected true or false",
+});
+
+export const mixConfigSchema = z.object({
+	serverUrl: z.url({
+		protocol: /^https?$/,
+		error: (issue) =>
+			issue.input === undefined
+				? "Required"
+				: "Expected an http:// or https:// URL",
+	}),
+	provider: z.string().min(1).default("anthropic"),
+	model: z.string().min(1).default("claude-sonnet-4-5"),
+	timeouts: z
+		.object({
+			/** Limit for each request to the Mix server. */
+			requestMs: milliseconds.default(30_000),
+			/** How long to wait for the event stream to connect. */
+			streamConnectMs: milliseconds.default(5_000),
+		})
+		.default({ requestMs: 30_000, streamConnectMs: 5_000 }),
+	retry: z
+		.object({
+			/** Retry failed requests with exponential backoff. */
+			enabled: flag.default(true),
+			initialDelayMs: milliseconds.default(500),
+			maxDelayMs: milliseconds.default(5_000),
+			backoffFactor: z.coerce.number().min(1).default(2),
+			/** Give up once retries have taken this long in total. */
+			maxElapsedMs: milliseconds.default(30_000),
+		})
+		.default({
+			enabled: true,
+			initialDelayMs: 500,
+			maxDelayMs: 5_000,
+			backoffFactor: 2,
+			maxElapsedMs: 30_000,
+		}),
+	features: z
+		.object({
+			/** Ask Mix to plan before acting on each message. */
+			planMode: flag.default(false),
+			/** Relay the model's thinking to the browser. */
+			thinking: flag.default(true),
+		})
+		.default({ planMode: false, thinking: true }),
+});
+
+export type MixConfig = z.infer<typeof mixConfigSchema>;
+
+// Environment variable for each setting, also used to point at the setting in errors
+const ENV_VARIABLES = {
+	serverUrl: "MIX_SERVER_URL",
+	provider: "MIX_PROVIDER",
+	model: "MIX_MODEL",
+	"timeouts.requestMs": "MIX_REQUEST_TIMEOUT_MS",
+	"timeouts.streamConnectMs": "MIX_STREAM_CONNECT_TIMEOUT_MS",
+	"retry.enabled": "MIX_RETRY",
+	"retry.initialDelayMs": "MIX_RETRY_INITIAL_DELAY_MS",
+	"retry.maxDelayMs": "MIX_RETRY_MAX_DELAY_MS",
+	"retry.backoffFactor": "MIX_RETRY_BACKOFF_FACTOR",
+	"retry.maxElapsedMs": "MIX_RETRY_MAX_ELAPSED_MS",
+	"features.planMode": "MIX_PLAN_MODE",
+	"features.thinking": "MIX_THINKING",
+} as const;
+
+const DEFAULT_CONFIG_FILE = "mix.config.json";
+
+/**
+ * Thrown when the configuration is invalid. `issues` has one line per
+ * problem, naming the setting and where its value came from.
+ */
+export class MixConfigError extends Error {
+	readonly issues: string[];
+
+	constructor(issues: string[]) {
+		super(`Invalid Mix configuration:\n  - ${issues.join("\n  - ")}`);
+		this.name = "MixConfigError";
+		this.issues = issues;
+	}
+}
+
+interface LoadMixConfigOptions {
+	env?: Record<string, string | undefined>;
+	/** Defaults to MIX_CONFIG_FILE, then mix.config.json in the working directory if it exists. */
+	configFile?: string;
+}
+
+/**
+ * Load and validate the configuration. Environment variables override the
+ * config file, which overrides the defaults.
+ */
+export function loadMixConfig({
+	env = process.env,
+	configFile = env.MIX_CONFIG_FILE,
+}: LoadMixConfigOptions = {}): MixConfig {
+	const filePath = resolve(configFile || DEFAULT_CONFIG_FILE);
+	const fileName = configFile || DEFAULT_CONFIG_FILE;
+	let fileConfig: Record<string, unknown> = {};
+
+	if (existsSync(filePath)) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+		} catch (error) {
+			throw new MixConfigError([
+				`${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			]);
+		}
+
+		// Settings are merged into it by path, which needs an object at the top
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+			throw new MixConfigError([
+				`${fileName} must contain a JSON object, not ${Array.isArray(parsed) ? "an array" : JSON.stringify(parsed)}`,
+			]);
+		}
+
+		fileConfig = parsed as Record<string, unknown>;
+	} else if (configFile) {
+		throw new MixConfigError([`${fileName} does not exist`]);
+	}
+
+	const fromEnv = new Set<string>();
+	const merged = structuredClone(fileConfig);
+
+	for (const [key, name] of Object.entries(ENV_VARIABLES)) {
+		const value = env[name];
+		if (value === undefined || value === "") continue;
+
+		setPath(merged, key.split("."), value);
+		fromEnv.add(key);
+	}
+
+	const result = mixConfigSchema.safeParse(merged);
+
+	if (!result.success) {
+		throw new MixConfigError(
+			result.error.issues.map((issue) => {
+				const key = issue.path.join(".");
+				const name = ENV_VARIABLES[key as keyof typeof ENV_VARIABLES];
+				let source = fileName;
+
+				if (fromEnv.has(key)) {
+					source = name;
+				} else if (name && getPath(fileConfig, issue.path) === undefined) {
+					// Missing entirely, so say where it can be set
+					source = `set ${name} or "${key}" in ${fileName}`;
+				}
+
+				return `${key || "config"} (${source}): ${issue.message}`;
+			}),
+		);
+	}
+
+	return result.data;
+}
+
+let config: MixConfig | null = null;
+
+/**
+ * The configuration for this process, loaded on first use.
+ */
+export function getMixConfig(): MixConfig {
+	if (!config) {
+		config = loadMixConfig();
+	}
+
+	return config;
+}
+
+function getPath(target: unknown, path: PropertyKey[]): unknown {
+	return path.reduce<unknown>(
+		(value, key) =>
+			value && typeof value === "object"
+				? (value as Record<PropertyKey, unknown>)[key]
+				: undefined,
+		target,
+	);
+}
+
+function setPath(
+	target: Record<string, unknown>,
+	path: string[],
+	value: unknown,
+) {
+	const [key, ...rest] = path;
+
+	if (rest.length === 0) {
+		target[key] = value;
+		return;
+	}
+
+	const child = target[key];
+	const next =
+		child && typeof child === "object"
+			? (child as Record<string, unknown>)
+			: {};
+	target[key] = next;
+	setPath(next, rest, value);
+}
@@ -0,0 +1,150 @@
+/**
+ * Schemas and types for the events on a Mix session stream.
+ * Payloads are validated once in mix-streaming.ts, so callbacks and components
+ * get typed data instead of re-checking it. Objects are loose: fields Mix adds
+ * later pass through untouched.
+ */
+
+import { z } from "zod";
+
+// Events such as heartbeat may arrive without a payload
+const emptyPayload = z.looseObject({}).default({});
+
+export const toolCallSchema = z.looseObject({
+	id: z.string().optional(),
+	name: z.string(),
+	/** Parameters the model passed, either as an object or as a JSON string. */
+	input: z.unknown().optional(),
+});
+
+export const toolExecutionStartSchema = z.looseObject({
+	toolCallId: z.string(),
+	toolName: z.string(),
+	input: z.unknown().optional(),
+});
+
+export const toolExecutionCompleteSchema = z.looseObject({
+	toolCallId: z.string(),
+	toolName: z.string(),
+	success: z.boolean().optional(),
+	output: z.unknown().optional(),
+	error: z.string().optional(),
+});
+
+export const toolParameterDeltaSchema = z.looseObject({
+	toolCallId: z.string(),
+	delta: z.string(),
+});
+
+export const permissionRequestSchema = z.looseObject({
+	id: z.string(),
+	toolName: z.string().optional(),
+	description: z.string().optional(),
+});
+
+export const userMessageCreatedSchema = z.looseObject({
+	id: z.string().optional(),
+	text: z.string().optional(),
+});
+
+export const sessionEventSchema = z.looseObject({
+	sessionId: z.string().optional(),
+});
+
+export const mixEventSchema = z.discriminatedUnion("event", [
+	z.object({
+		event: z.literal("thinking"),
+		data: z.looseObject({ content: z.string() }),
+	}),
+	z.object({
+		event: z.literal("content"),
+		data: z.looseObject({ content: z.string() }),
+	}),
+	z.object({ event: z.literal("tool"), data: toolCallSchema }),
+	z.object({
+		event: z.literal("tool_execution_start"),
+		data: toolExecutionStartSchema,
+	}),
+	z.object({
+		event: z.literal("tool_execution_complete"),
+		data: toolExecutionCompleteSchema,
+	}),
+	z.object({
+		event: z.literal("tool_parameter_delta"),
+		data: toolParameterDeltaSchema,
+	}),
+	z.object({ event: z.literal("permission"), data: permissionRequestSchema }),
+	z.object({
+		event: z.literal("error"),
+		data: z.looseObject({ error: z.string() }),
+	}),
+	z.object({
+		event: z.literal("user_message_created"),
+		data: userMessageCreatedSchema,
+	}),
+	z.object({ event: z.literal("session_created"), data: sessionEventSchema }),
+	z.object({ event: z.literal("session_deleted"), data: sessionEventSchema }),
+	z.object({ event: z.literal("heartbeat"), data: emptyPayload }),
+	z.object({ event: z.literal("connected"), data: emptyPayload }),
+	z.object({ event: z.literal("complete"), data: emptyPayload }),
+]);
+
+export type MixEvent = z.infer<typeof mixEventSchema>;
+export type MixEventType = MixEvent["event"];
+/** The event with the given name, e.g. `MixEventOf<"tool">`. */
+export type MixEventOf<T extends MixEventType> = Extract<
+	MixEvent,
+	{ event: T }
+>;
+
+export type ToolCall = z.infer<typeof toolCallSchema>;
+export type ToolExecutionStart = z.infer<typeof toolExecutionStartSchema>;
+export type ToolExecutionComplete = z.infer<typeof toolExecutionCompleteSchema>;
+export type ToolParameterDelta = z.infer<typeof toolParameterDeltaSchema>;
+export type PermissionRequest = z.infer<typeof permissionRequestSchema>;
+export type UserMessageCreated = z.infer<typeof userMessageCreatedSchema>;
+export type SessionEvent = z.infer<typeof sessionEventSchema>;
+
+/**
+ * An event that did not match its schema, or whose name is not a known event.
+ * `issues` has one line per problem.
+ */
+export interface MalformedMixEvent {
+	event: string;
+	data: unknown;
+	issues: string[];
+}
+
+export type ParseMixEventResult =
+	| { success: true; event: MixEvent }
+	| { success: false; malformed: MalformedMixEvent };
+
+/**
+ * Validate a raw `{ event, data }` pair from the SDK's event stream.
+ */
+export function parseMixEvent(raw: {
+	event: string;
+	data?: unknown;
+}): ParseMixEventResult {
+	const result = mixEventSchema.safeParse({
+		event: raw.event,
+		data: raw.data ?? undefined,
+	});
+
+	if (result.success) {
+		return { success: true, event: result.data };
+	}
+
+	return {
+		success: false,
+		malformed: {
+			event: raw.event,
+			data: raw.data,
+			issues: result.error.issues.map((issue) => {
+				const path = issue.path.join(".");
+				if (path === "event") return `Unknown event "${raw.event}"`;
+				return path ? `${path}: ${issue.message}` : issue.message;
+			}),
+		},
+	};
+}
@@ -0,0 +1,29 @@
+/**
+ * Server functions for managing Mix sessions from the browser.
+ * Each chat needs a session id before it can open the stream route.
+ */
+
+import { createServerFn } from "@tanstack/react-start";
+import { getMixClient } from "@/lib/mix-client";
+
+/**
+ * Create a new Mix session and return its id.
+ */
+export const createMixSession = createServerFn({ method: "POST" })
+	.inputValidator((data: { title: string }) => data)
+	.handler(async ({ data }) => {
+		const session = await getMixClient().sessions.create({
+			title: data.title,
+		});
+
+		return { id: session.id };
+	});
+
+/**
+ * Delete a Mix session once the user is done with it.
+ */
+export const deleteMixSession = createServerFn({ method: "POST" })
+	.inputValidator((data: { id: string }) => data)
+	.handler(async ({ data }) => {
+		await getMixClient().sessions.delete({ id: data.id });
+	});
@@ -0,0 +1,191 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	StreamConnectError,
+	sendWithCallbacks,
+	streamMessage,
+} from "@/lib/mix-streaming";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface FakeMixOptions {
+	/** Yields the raw stream events; `sent` resolves once the message is sent. */
+	stream: (sent: Promise<void>) => AsyncGenerator<unknown>;
+	/** Gets the signal streamMessage passes to the send request. */
+	send?: (signal: AbortSignal) => Promise<unknown>;
+}
+
+// A send that stays in flight until its request is aborted, like a long generation
+const sendUntilAborted = (signal: AbortSignal) =>
+	new Promise((_, reject) => {
+		signal.addEventListener("abort", () => reject(signal.reason), {
+			once: true,
+		});
+	});
+
+type Mix = Parameters<typeof streamMessage>[0];
+
+// Just enough of the SDK for streamMessage: an event stream and messages.send
+function createFakeMix({ stream, send = async () => ({}) }: FakeMixOptions) {
+	const log: string[] = [];
+	let sendSignal: AbortSignal | undefined;
+	let markSent = () => {};
+	const sent = new Promise<void>((resolve) => {
+		markSent = resolve;
+	});
+
+	const mix = {
+		streaming: {
+			streamEvents: async () => ({ result: stream(sent) }),
+		},
+		messages: {
+			send: vi.fn(
+				(_request: unknown, options: { fetchOptions: RequestInit }) => {
+					log.push("send");
+					markSent();
+					sendSignal = options.fetchOptions.signal as AbortSignal;
+					return send(sendSignal);
+				},
+			),
+		},
+	};
+
+	return {
+		mix: mix as unknown as Mix,
+		send: mix.messages.send,
+		log,
+		sendSignal: () => sendSignal,
+	};
+}
+
+describe("streamMessage", () => {
+	it("sends only after the stream connects and loses no events", async () => {
+		const { mix, log } = createFakeMix({
+			async *stream(sent) {
+				await wait(10);
+				yield { event: "heartbeat" };
+				yield { event: "connected" };
+				// Events caused by the message only exist once it is sent
+				await sent;
+				yield { event: "content", data: { content: "Hello" } };
+				yield { event: "content", data: { content: " world" } };
+				yield { event: "complete" };
+			},
+		});
+
+		for await (const event of streamMessage(mix, "session", "Hi")) {
+			log.push(event.event);
+		}
+
+		expect(log).toEqual([
+			"heartbeat",
+			"send",
+			"connected",
+			"content",
+			"content",
+			"complete",
+		]);
+	});
+
+	it("gives up without sending when the stream does not connect in time", async () => {
+		const { mix, send } = createFakeMix({
+			async *stream() {
+				await new Promise(() => {});
+			},
+		});
+
+		await expect(async () => {
+			for await (const _ of streamMessage(mix, "session", "Hi", {
+				connectTimeoutMs: 20,
+			})) {
+				// Nothing arrives
+			}
+		}).rejects.toThrow(StreamConnectError);
+		expect(send).not.toHaveBeenCalled();
+	});
+
+	it("ends with the send's error when sending fails", async () => {
+		const { mix } = createFakeMix({
+			async *stream() {
+				yield { event: "connected" };
+				// Only heartbeats follow, so only the failed send can end the stream
+				while (true) {
+					await wait(5);
+					yield { event: "heartbeat" };
+				}
+			},
+			send: async () => {
+				await wait(20);
+				throw new Error("Session not found");
+			},
+		});
+
+		const onError = vi.fn();
+		const onComplete = vi.fn();
+		await sendWithCallbacks(mix, "session", "Hi", { onError, onComplete });
+
+		expect(onError).toHaveBeenCalledWith("Session not found");
+		expect(onComplete).not.toHaveBeenCalled();
+	});
+
+	it("ends with cancelled and aborts the send when the signal aborts mid-stream", async () => {
+		const { mix, log, sendSignal } = createFakeMix({
+			async *stream(sent) {
+				yield { event: "connected" };
+				await sent;
+				yield { event: "content", data: { content: "Hello" } };
+				await new Promise(() => {});
+			},
+			send: sendUntilAborted,
+		});
+		const cancellation = new AbortController();
+
+		for await (const event of streamMessage(mix, "session", "Hi", {
+			signal: cancellation.signal,
+		})) {
+			log.push(event.event);
+			if (event.event === "content") cancellation.abort();
+		}
+
+		expect(log).toEqual(["send", "connected", "content", "cancelled"]);
+		expect(sendSignal()?.aborted).toBe(true);
+	});
+
+	it("aborts the send when the consumer stops iterating", async () => {
+		const { mix, sendSignal } = createFakeMix({
+			async *stream(sent) {
+				yield { event: "connected" };
+				await sent;
+				while (true) {
+					yield { event: "content", data: { content: "more" } };
+				}
+			},
+			send: sendUntilAborted,
+		});
+
+		for await (const event of streamMessage(mix, "session", "Hi")) {
+			if (event.event === "content") break;
+		}
+
+		expect(sendSignal()?.aborted).toBe(true);
+	});
+
+	it("ends with cancelled without sending when the signal aborts before connecting", async () => {
+		const { mix, log, send } = createFakeMix({
+			async *stream() {
+				yield { event: "heartbeat" };
+				await new Promise(() => {});
+			},
+		});
+		const cancellation = new AbortController();
+		setTimeout(() => cancellation.abort(), 10);
+
+		for await (const event of streamMessage(mix, "session", "Hi", {
+			signal: cancellation.signal,
+		})) {
+			log.push(event.event);
+		}
+
+		expect(log).toEqual(["heartbeat", "cancelled"]);
+		expect(send).not.toHaveBeenCalled();
+	});
+});
@@ -4,40 +4,246 @@
  */
 
 import type { Mix } from "mix-typescript-sdk";
-
-export interface StreamEvent {
-	event: string;
-	data: unknown;
-}
+import { z } from "zod";
+import {
+	type MalformedMixEvent,
+	type MixEvent,
+	type PermissionRequest,
+	parseMixEvent,
+	type SessionEvent,
+	type ToolCall,
+	type ToolExecutionComplete,
+	type ToolExecutionStart,
+	type ToolParameterDelta,
+	type UserMessageCreated,
+} from "@/lib/mix-events";
 
 export interface StreamCallbacks {
 	onThinking?: (text: string) => void;
 	onContent?: (text: string) => void;
-	onTool?: (tool: unknown) => void;
-	onToolExecutionStart?: (data: unknown) => void;
-	onToolExecutionComplete?: (data: unknown) => void;
+	onTool?: (tool: ToolCall) => void;
+	onToolExecutionStart?: (data: ToolExecutionStart) => void;
+	onToolExecutionComplete?: (data: ToolExecutionComplete) => void;
 	onError?: (error: string) => void;
-	onPermission?: (data: unknown) => void;
+	onPermission?: (data: PermissionRequest) => void;
 	onComplete?: () => void;
 	// New v0.8.x event handlers
-	onUserMessageCreated?: (data: unknown) => void;
-	onSessionCreated?: (data: unknown) => void;
-	onSessionDeleted?: (data: unknown) => void;
-	onToolParameterDelta?: (data: unknown) => void;
+	onUserMessageCreated?: (data: UserMessageCreated) => void;
+	onSessionCreated?: (data: SessionEvent) => void;
+	onSessionDeleted?: (data: SessionEvent) => void;
+	onToolParameterDelta?: (data: ToolParameterDelta) => void;
 	onHeartbeat?: () => void;
 	onConnected?: () => void;
+	/** Called for events that fail validation; they are otherwise skipped. */
+	onMalformed?: (event: MalformedMixEvent) => void;
+	/** Called instead of onComplete or onError when the signal aborts the message. */
+	onCancelled?: () => void;
+}
+
+export interface SendMessageOptions {
+	/** Ask Mix to plan before acting. */
+	planMode?: boolean;
+	/**
+	 * How long to wait for the stream's `connected` event before giving up.
+	 * The message is only sent once the stream is connected, so no events are missed.
+	 */
+	connectTimeoutMs?: number;
+	/**
+	 * Stops the message: the stream is closed and the send request aborted,
+	 * which ends the generation on the Mix server.
+	 */
+	signal?: AbortSignal;
+}
+
+export const DEFAULT_CONNECT_TIMEOUT_MS = 5_000;
+
+const CANCELLED = Symbol("cancelled");
+
+/**
+ * Thrown when the event stream does not confirm it is connected in time.
+ * The message has not been sent when this happens.
+ */
+export class StreamConnectError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "StreamConnectError";
+	}
+}
+
+/**
+ * What streamMessage yields: every validated Mix event, plus two produced here.
+ * `malformed` carries an event that failed validation, and `cancelled` ends
+ * the stream when the signal aborts the message.
+ */
+export type StreamMessageEvent =
+	| MixEvent
+	| { event: "malformed"; data: MalformedMixEvent }
+	| { event: "cancelled"; data: Record<string, never> };
+
+/**
+ * Send a message and iterate over the events it causes. The iteration ends
+ * after `complete`, `error` or `cancelled`. Failures outside the stream, such
+ * as a connect timeout or a rejected send, are thrown.
+ *
+ * Stopping the iteration early, e.g. with `break`, aborts the message too.
+ */
+export async function* streamMessage(
+	mix: Mix,
+	sessionId: string,
+	message: string,
+	{
+		planMode = false,
+		connectTimeoutMs = DEFAULT_CONNECT_TIMEOUT_MS,
+		signal,
+	}: SendMessageOptions = {},
+): AsyncGenerator<StreamMessageEvent, void, undefined> {
+	if (signal?.aborted) {
+		yield { event: "cancelled", data: {} };
+		return;
+	}
+
+	// Aborted by the caller's signal or when iteration stops, so Mix stops generating
+	const controller = new AbortController();
+	const onAbort = () => controller.abort();
+	signal?.addEventListener("abort", onAbort, { once: true });
+
+	// Settles as soon as the signal aborts, without waiting for a pending read to fail
+	const aborted = new Promise<typeof CANCELLED>((resolve) => {
+		controller.signal.addEventListener("abort", () => resolve(CANCELLED), {
+			once: true,
+		});
+	});
+
+	const send = () =>
+		mix.messages.send(
+			{
+				id: sessionId,
+				requestBody: {
+					text: message,
+					planMode,
+				},
+			},
+			{ fetchOptions: { signal: controller.signal } },
+		);
+
+	// Sent once the stream reports `connected`, instead of guessing how long connecting takes
+	let sendPromise: ReturnType<typeof send> | undefined;
+	// Rejects with the send's error and never resolves, so a failed send ends the stream
+	let sendFailed: Promise<never> | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let closeEvents = () => {};
+	let completed = false;
+
+	try {
+		// Start the event stream
+		const streamResponse = await mix.streaming.streamEvents(
+			{
+				sessionId,
+			},
+			{ fetchOptions: { signal: controller.signal } },
+		);
+		const events = streamResponse.result[Symbol.asyncIterator]();
+		// Close the stream without waiting, a read may still be pending on it
+		closeEvents = () => {
+			events.return?.().catch(() => {});
+		};
+
+		const connectTimeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => {
+				reject(
+					new StreamConnectError(
+						`Mix stream did not connect within ${connectTimeoutMs}ms, so the message was not sent`,
+					),
+				);
+			}, connectTimeoutMs);
+		});
+		// Only awaited until connected; keep a later rejection from going unhandled
+		connectTimeout.catch(() => {});
+
+		// Process events from the stream
+		while (true) {
+			const result = await Promise.race([
+				events.next(),
+				aborted,
+				sendFailed ?? connectTimeout,
+			]);
+
+			if (result === CANCELLED) {
+				yield { event: "cancelled", data: {} };
+				return;
+			}
+
+			const { value: raw, done } = result;
+
+			if (done) break;
+
+			const parsed = parseMixEvent(raw);
+			if (!parsed.success) {
+				yield { event: "malformed", data: parsed.malformed };
+				continue;
+			}
+
+			if (parsed.event.event === "connected") {
+				// Only now is it safe to send: every event it causes will reach us
+				clearTimeout(timer);
+				if (!sendPromise) {
+					const sending = send();
+					const failed = sending.then(() => new Promise<never>(() => {}));
+					// Handled by the race, but it may reject while the consumer holds an event
+					failed.catch(() => {});
+					sendPromise = sending;
+					sendFailed = failed;
+				}
+			}
+
+			yield parsed.event;
+
+			if (parsed.event.event === "complete") {
+				completed = true;
+				// Wait for send to complete before exiting
+				await sendPromise;
+				return;
+			}
+
+			if (parsed.event.event === "error") return;
+		}
+
+		if (!sendPromise) {
+			throw new StreamConnectError(
+				"Mix stream closed before it connected, so the message was not sent",
+			);
+		}
+
+		// If stream ends without complete event, wait for send
+		await sendPromise;
+	} catch (error: unknown) {
+		// Aborted requests fail with an AbortError, which is a cancellation rather than an error
+		if (signal?.aborted) {
+			if (!completed) yield { event: "cancelled", data: {} };
+			return;
+		}
+
+		throw error;
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener("abort", onAbort);
+		closeEvents();
+		// A no-op once the message is done, otherwise the iteration stopped early
+		controller.abort();
+	}
 }
 
 /**
  * Send a message via streaming with callbacks for different event types.
- * This is the TypeScript equivalent of the Python send_with_callbacks helper.
+ * This is the TypeScript equivalent of the Python send_with_callbacks helper,
+ * built on streamMessage. Without onError, failures are thrown.
  */
 export async function sendWithCallbacks(
 	mix: Mix,
 	sessionId: string,
 	message: string,
 	callbacks: StreamCallbacks = {},
-	planMode = false,
+	options: SendMessageOptions = {},
 ): Promise<void> {
 	const {
 		onThinking,
@@ -54,156 +260,120 @@ export async function sendWithCallbacks(
 		onToolParameterDelta,
 		onHeartbeat,
 		onConnected,
+		onCancelled,
+		onMalformed,
 	} = callbacks;
 
-	// Start the event stream
-	const streamResponse = await mix.streaming.streamEvents({
-		sessionId,
-	});
-
-	// Allow stream connection to establish
-	await new Promise((resolve) => setTimeout(resolve, 500));
-
-	// Start sending the message in parallel with stream processing
-	const sendPromise = mix.messages.send({
-		id: sessionId,
-		requestBody: {
-			text: message,
-			planMode,
-		},
-	});
-
 	try {
-		// Process events from the stream
-		for await (const event of streamResponse.result) {
-			if (!event.data) continue;
-
-			const eventType = event.event;
-			const eventData = event.data;
-
-			switch (eventType) {
+		for await (const item of streamMessage(mix, sessionId, message, options)) {
+			switch (item.event) {
 				case "thinking":
-					if (onThinking && "content" in eventData && eventData.content) {
-						onThinking(eventData.content);
+					if (onThinking && item.data.content) {
+						onThinking(item.data.content);
 					}
 					break;
 
 				case "content":
-					if (onContent && "content" in eventData && eventData.content) {
-						onContent(eventData.content);
+					if (onContent && item.data.content) {
+						onContent(item.data.content);
 					}
 					break;
 
 				case "tool":
-					if (onTool) {
-						onTool(eventData);
-					}
+					onTool?.(item.data);
 					break;
 
 				case "tool_execution_start":
-					if (onToolExecutionStart) {
-						onToolExecutionStart(eventData);
-					}
+					onToolExecutionStart?.(item.data);
 					break;
 
 				case "tool_execution_complete":
-					if (onToolExecutionComplete) {
-						onToolExecutionComplete(eventData);
-					}
+					onToolExecutionComplete?.(item.data);
 					break;
 
 				case "error":
-					if (onError && "error" in eventData && eventData.error) {
-						onError(eventData.error);
+					if (onError && item.data.error) {
+						onError(item.data.error);
 					}
 					break;
 
 				case "permission":
-					if (onPermission) {
-						onPermission(eventData);
-					}
+					onPermission?.(item.data);
 					break;
 
 				case "user_message_created":
-					if (onUserMessageCreated) {
-						onUserMessageCreated(eventData);
-					}
+					onUserMessageCreated?.(item.data);
 					break;
 
 				case "session_created":
-					if (onSessionCreated) {
-						onSessionCreated(eventData);
-					}
+					onSessionCreated?.(item.data);
 					break;
 
 				case "session_deleted":
-					if (onSessionDeleted) {
-						onSessionDeleted(eventData);
-					}
+					onSessionDeleted?.(item.data);
 					break;
 
 				case "tool_parameter_delta":
-					if (onToolParameterDelta) {
-						onToolParameterDelta(eventData);
-					}
+					onToolParameterDelta?.(item.data);
 					break;
 
 				case "heartbeat":
-					if (onHeartbeat) {
-						onHeartbeat();
-					}
+					onHeartbeat?.();
 					break;
 
 				case "connected":
-					if (onConnected) {
-						onConnected();
-					}
+					onConnected?.();
 					break;
 
 				case "complete":
-					if (onComplete) {
-						onComplete();
-					}
-					// Wait for send to complete before exiting
-					await sendPromise;
-					return;
+					onComplete?.();
+					break;
+
+				case "malformed":
+					onMalformed?.(item.data);
+					break;
+
+				case "cancelled":
+					onCancelled?.();
+					break;
 			}
 		}
-
-		// If stream ends without complete event, wait for send
-		await sendPromise;
 	} catch (error: unknown) {
-		if (onError) {
-			onError(error instanceof Error ? error.message : String(error));
-		} else {
-			throw error;
-		}
+		if (!onError) throw error;
+		onError(error instanceof Error ? error.message : String(error));
 	}
 }
 
+const showMediaInputSchema = z.object({
+	outputs: z
+		.array(
+			z.object({
+				title: z.string(),
+				description: z.string().optional(),
+				path: z.string().optional(),
+			}),
+		)
+		.default([]),
+});
+
+export type ShowMediaOutput = z.infer<
+	typeof showMediaInputSchema
+>["outputs"][number];
+
 /**
  * Parse tool output for ShowMedia events to extract chart/plot information.
  * Note: In SDK v0.8.x, the tool name changed from 'show_media' to 'ShowMedia' (PascalCase)
  */
-export function parseShowMediaTool(tool: unknown): Array<{
-	title: string;
-	description?: string;
-	path?: string;
-}> {
-	if (
-		!tool ||
-		typeof tool !== "object" ||
-		!("name" in tool) ||
-		tool.name !== "ShowMedia" ||
-		!("input" in tool) ||
-		!tool.input
-	)
-		return [];
+export function parseShowMediaTool(
+	tool: Pick<ToolCall, "name" | "input">,
+): ShowMediaOutput[] {
+	if (tool.name !== "ShowMedia" || !tool.input) return [];
 
 	try {
 		const input =
 			typeof tool.input === "string" ? JSON.parse(tool.input) : tool.input;
-		return input.outputs || [];
+		const result = showMediaInputSchema.safeParse(input);
+		return result.success ? result.data.outputs : [];
 	} catch (_e) {
 		return [];
 	}
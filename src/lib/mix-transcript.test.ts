@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { StreamMessageEvent } from "@/lib/mix-streaming";
+import {
+	createTranscript,
+	reduceTranscript,
+	type Transcript,
+} from "@/lib/mix-transcript";
+
+// Applies the events one second apart, starting at 1000
+function reduce(events: StreamMessageEvent[], transcript = createTranscript()) {
+	return events.reduce<Transcript>(
+		(current, event, index) =>
+			reduceTranscript(current, { event, receivedAt: 1000 * (index + 1) }),
+		transcript,
+	);
+}
+
+describe("reduceTranscript", () => {
+	it("appends text and thinking deltas to the last block of their kind", () => {
+		const transcript = reduce([
+			{ event: "thinking", data: { content: "Reading" } },
+			{ event: "thinking", data: { content: " the file" } },
+			{ event: "content", data: { content: "Hello" } },
+			{ event: "content", data: { content: " world" } },
+			{ event: "tool", data: { id: "t1", name: "Read" } },
+			{ event: "content", data: { content: "Done" } },
+		]);
+
+		expect(transcript.blocks).toEqual([
+			{ type: "thinking", text: "Reading the file" },
+			{ type: "text", text: "Hello world" },
+			expect.objectContaining({ type: "tool", id: "t1" }),
+			{ type: "text", text: "Done" },
+		]);
+		expect(transcript.status).toBe("streaming");
+		expect(transcript.startedAt).toBe(1000);
+	});
+
+	it("matches tool input, start and result by id", () => {
+		const transcript = reduce([
+			{
+				event: "tool_parameter_delta",
+				data: { toolCallId: "t1", delta: '{"path":' },
+			},
+			{
+				event: "tool",
+				data: { id: "t1", name: "Read", input: '{"path":"data.csv"}' },
+			},
+			{ event: "tool", data: { id: "t2", name: "Bash", input: {} } },
+			{
+				event: "tool_execution_start",
+				data: { toolCallId: "t1", toolName: "Read" },
+			},
+			{
+				event: "tool_execution_start",
+				data: { toolCallId: "t2", toolName: "Bash" },
+			},
+			{
+				event: "tool_execution_complete",
+				data: { toolCallId: "t2", toolName: "Bash", error: "exit 1" },
+			},
+			{
+				event: "tool_execution_complete",
+				data: {
+					toolCallId: "t1",
+					toolName: "Read",
+					success: true,
+					output: "a,b",
+				},
+			},
+		]);
+
+		expect(transcript.blocks).toEqual([
+			{
+				type: "tool",
+				id: "t1",
+				name: "Read",
+				status: "succeeded",
+				input: { path: "data.csv" },
+				partialInput: undefined,
+				output: "a,b",
+				error: undefined,
+				startedAt: 4000,
+				completedAt: 7000,
+				durationMs: 3000,
+			},
+			{
+				type: "tool",
+				id: "t2",
+				name: "Bash",
+				status: "failed",
+				input: {},
+				partialInput: undefined,
+				output: undefined,
+				error: "exit 1",
+				startedAt: 5000,
+				completedAt: 6000,
+				durationMs: 1000,
+			},
+		]);
+	});
+
+	it("numbers tool calls that arrive without an id", () => {
+		const transcript = reduce([
+			{ event: "tool", data: { name: "ShowMedia" } },
+			{ event: "tool", data: { name: "ShowMedia" } },
+		]);
+
+		expect(
+			transcript.blocks.map((block) => block.type === "tool" && block.id),
+		).toEqual(["tool-0", "tool-1"]);
+	});
+
+	it("adds a block for each permission request", () => {
+		const transcript = reduce([
+			{ event: "content", data: { content: "Running it" } },
+			{ event: "permission", data: { id: "p1", toolName: "Bash" } },
+		]);
+
+		expect(transcript.blocks.at(-1)).toEqual({
+			type: "permission",
+			request: { id: "p1", toolName: "Bash" },
+		});
+	});
+
+	it.each<{ event: StreamMessageEvent; expected: Partial<Transcript> }>([
+		{
+			event: { event: "error", data: { error: "Rate limited" } },
+			expected: { status: "error", error: "Rate limited" },
+		},
+		{
+			event: { event: "cancelled", data: {} },
+			expected: { status: "cancelled" },
+		},
+		{
+			event: { event: "complete", data: {} },
+			expected: { status: "complete" },
+		},
+	])("ends the message on $event.event", ({ event, expected }) => {
+		const transcript = reduce([
+			{ event: "content", data: { content: "Partial" } },
+			event,
+		]);
+
+		expect(transcript).toMatchObject({ ...expected, completedAt: 2000 });
+	});
+
+	it("returns the same transcript for events that change nothing", () => {
+		const transcript = createTranscript();
+
+		expect(
+			reduceTranscript(transcript, {
+				event: { event: "heartbeat", data: {} },
+				receivedAt: 1000,
+			}),
+		).toBe(transcript);
+	});
+
+	it("keeps malformed events and stays serializable", () => {
+		const transcript = reduce([
+			{
+				event: "malformed",
+				data: {
+					event: "content",
+					data: {},
+					issues: ["data.content: Required"],
+				},
+			},
+			{ event: "complete", data: {} },
+		]);
+
+		expect(transcript.malformed).toHaveLength(1);
+		expect(JSON.parse(JSON.stringify(transcript))).toEqual(transcript);
+		expect(structuredClone(transcript)).toEqual(transcript);
+	});
+});
@@ -0,0 +1,219 @@
+/**
+ * Folds the events of one Mix message into a transcript: ordered text,
+ * thinking, tool call and permission blocks. The reducer is pure and the
+ * transcript is plain JSON, so the same code builds it on the server from
+ * streamMessage and in React with useReducer.
+ */
+
+import type { MalformedMixEvent, PermissionRequest } from "@/lib/mix-events";
+import type { StreamMessageEvent } from "@/lib/mix-streaming";
+
+export type TranscriptStatus = "streaming" | "complete" | "error" | "cancelled";
+
+export type ToolCallStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface TextBlock {
+	type: "text";
+	text: string;
+}
+
+export interface ThinkingBlock {
+	type: "thinking";
+	text: string;
+}
+
+export interface ToolCallBlock {
+	type: "tool";
+	id: string;
+	name: string;
+	status: ToolCallStatus;
+	/** Parameters, parsed when they arrive as a JSON string. */
+	input?: unknown;
+	/** Parameters streamed so far, before the tool event carries the full input. */
+	partialInput?: string;
+	output?: unknown;
+	error?: string;
+	startedAt?: number;
+	completedAt?: number;
+	durationMs?: number;
+}
+
+export interface PermissionBlock {
+	type: "permission";
+	request: PermissionRequest;
+}
+
+export type TranscriptBlock =
+	| TextBlock
+	| ThinkingBlock
+	| ToolCallBlock
+	| PermissionBlock;
+
+export interface Transcript {
+	status: TranscriptStatus;
+	blocks: TranscriptBlock[];
+	/** Set when the message ends with an error. */
+	error?: string;
+	/** Events that failed validation, kept for debugging. */
+	malformed: MalformedMixEvent[];
+	startedAt?: number;
+	completedAt?: number;
+}
+
+/**
+ * One event and when it was received, in milliseconds since the epoch.
+ * The time is passed in rather than read so the reducer stays pure.
+ */
+export interface TranscriptAction {
+	event: StreamMessageEvent;
+	receivedAt: number;
+}
+
+export function createTranscript(): Transcript {
+	return { status: "streaming", blocks: [], malformed: [] };
+}
+
+/**
+ * Apply one event. Returns a new transcript, or the same one when the event
+ * changes nothing. Content and thinking arrive as deltas and are appended to
+ * the last block of their kind, so text on either side of a tool call stays
+ * in separate blocks. Tool events are matched by tool call id.
+ */
+export function reduceTranscript(
+	transcript: Transcript,
+	{ event, receivedAt }: TranscriptAction,
+): Transcript {
+	const next = {
+		...transcript,
+		startedAt: transcript.startedAt ?? receivedAt,
+	};
+
+	switch (event.event) {
+		case "content":
+			return appendText(next, "text", event.data.content);
+
+		case "thinking":
+			return appendText(next, "thinking", event.data.content);
+
+		case "tool_parameter_delta":
+			return updateToolCall(next, event.data.toolCallId, (tool) => ({
+				...tool,
+				partialInput: (tool.partialInput ?? "") + event.data.delta,
+			}));
+
+		case "tool": {
+			const id =
+				event.data.id ??
+				`tool-${next.blocks.filter((block) => block.type === "tool").length}`;
+
+			return updateToolCall(next, id, (tool) => ({
+				...tool,
+				name: event.data.name,
+				input: parseInput(event.data.input),
+				partialInput: undefined,
+			}));
+		}
+
+		case "tool_execution_start":
+			return updateToolCall(next, event.data.toolCallId, (tool) => ({
+				...tool,
+				name: tool.name || event.data.toolName,
+				status: "running",
+				input: tool.input ?? parseInput(event.data.input),
+				startedAt: receivedAt,
+			}));
+
+		case "tool_execution_complete": {
+			const { toolName, success, output, error } = event.data;
+
+			return updateToolCall(next, event.data.toolCallId, (tool) => ({
+				...tool,
+				name: tool.name || toolName,
+				status: error || success === false ? "failed" : "succeeded",
+				output,
+				error,
+				completedAt: receivedAt,
+				durationMs:
+					tool.startedAt === undefined
+						? undefined
+						: receivedAt - tool.startedAt,
+			}));
+		}
+
+		case "permission":
+			return {
+				...next,
+				blocks: [...next.blocks, { type: "permission", request: event.data }],
+			};
+
+		case "complete":
+			return { ...next, status: "complete", completedAt: receivedAt };
+
+		case "error":
+			return {
+				...next,
+				status: "error",
+				error: event.data.error,
+				completedAt: receivedAt,
+			};
+
+		case "cancelled":
+			return { ...next, status: "cancelled", completedAt: receivedAt };
+
+		case "malformed":
+			return { ...next, malformed: [...next.malformed, event.data] };
+
+		default:
+			// Connection and session events do not change the transcript
+			return transcript;
+	}
+}
+
+function appendText(
+	transcript: Transcript,
+	type: "text" | "thinking",
+	text: string,
+): Transcript {
+	if (!text) return transcript;
+
+	const blocks = [...transcript.blocks];
+	const last = blocks.at(-1);
+
+	if (last?.type === type) {
+		blocks[blocks.length - 1] = { ...last, text: last.text + text };
+	} else {
+		blocks.push({ type, text });
+	}
+
+	return { ...transcript, blocks };
+}
+
+// Tool events can arrive in any order, so whichever comes first adds the block
+function updateToolCall(
+	transcript: Transcript,
+	id: string,
+	update: (tool: ToolCallBlock) => ToolCallBlock,
+): Transcript {
+	const blocks = [...transcript.blocks];
+	const index = blocks.findIndex(
+		(block) => block.type === "tool" && block.id === id,
+	);
+
+	if (index === -1) {
+		blocks.push(update({ type: "tool", id, name: "", status: "pending" }));
+	} else {
+		blocks[index] = update(blocks[index] as ToolCallBlock);
+	}
+
+	return { ...transcript, blocks };
+}
+
+function parseInput(input: unknown): unknown {
+	if (typeof input !== "string") return input;
+
+	try {
+		return JSON.parse(input);
+	} catch {
+		return input;
+	}
+}
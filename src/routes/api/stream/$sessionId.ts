@@ -0,0 +1,138 @@
+/**
+ * Server-sent events bridge between the browser and a Mix session.
+ * Relays every Mix stream event as a named SSE frame for StreamingChat.
+ * Closing the connection cancels the message, ending its generation on the Mix server.
+ */
+
+import { createFileRoute } from "@tanstack/react-router";
+import { getMixClient } from "@/lib/mix-client";
+import { getMixConfig, type MixConfig } from "@/lib/mix-config";
+import { sendWithCallbacks } from "@/lib/mix-streaming";
+
+// Comment frames sent while Mix is idle so proxies keep the connection open
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+const SSE_HEADERS = {
+	"Content-Type": "text/event-stream; charset=utf-8",
+	"Cache-Control": "no-cache, no-transform",
+	Connection: "keep-alive",
+	"X-Accel-Buffering": "no",
+};
+
+export const Route = createFileRoute("/api/stream/$sessionId")({
+	server: {
+		handlers: {
+			GET: async ({ request, params }) => {
+				const message = new URL(request.url).searchParams.get("message");
+
+				if (!message) {
+					return Response.json(
+						{ error: "Missing message query parameter" },
+						{ status: 400 },
+					);
+				}
+
+				// Resolved per request, so a bad configuration fails this route rather than the server
+				let mix: ReturnType<typeof getMixClient>;
+				let config: MixConfig;
+				try {
+					mix = getMixClient();
+					config = getMixConfig();
+				} catch (error) {
+					return Response.json(
+						{
+							error: error instanceof Error ? error.message : String(error),
+						},
+						{ status: 500 },
+					);
+				}
+
+				const { features, timeouts } = config;
+				const encoder = new TextEncoder();
+				let closed = false;
+				let keepAlive: ReturnType<typeof setInterval> | undefined;
+				let close = () => {};
+				const cancellation = new AbortController();
+
+				// The browser went away, so stop the message instead of generating for nobody
+				const disconnect = () => {
+					cancellation.abort();
+					close();
+				};
+
+				const stream = new ReadableStream<Uint8Array>({
+					start(controller) {
+						const write = (chunk: string) => {
+							if (closed) return;
+							controller.enqueue(encoder.encode(chunk));
+						};
+
+						const send = (event: string, data: unknown = {}) => {
+							write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+						};
+
+						close = () => {
+							if (closed) return;
+							closed = true;
+							clearInterval(keepAlive);
+							request.signal.removeEventListener("abort", disconnect);
+							try {
+								controller.close();
+							} catch {
+								// Already closed by the runtime after a client disconnect
+							}
+						};
+
+						request.signal.addEventListener("abort", disconnect);
+						keepAlive = setInterval(
+							() => write(": keep-alive\n\n"),
+							KEEP_ALIVE_INTERVAL_MS,
+						);
+
+						sendWithCallbacks(
+							mix,
+							params.sessionId,
+							message,
+							{
+								onThinking: features.thinking
+									? (content) => send("thinking", { content })
+									: undefined,
+								onContent: (content) => send("content", { content }),
+								onTool: (tool) => send("tool", tool),
+								onToolExecutionStart: (data) =>
+									send("tool_execution_start", data),
+								onToolExecutionComplete: (data) =>
+									send("tool_execution_complete", data),
+								onPermission: (data) => send("permission", data),
+								onError: (error) => send("error", { error }),
+								onComplete: () => send("complete"),
+								onHeartbeat: () => send("heartbeat"),
+								// Logged rather than relayed: the browser only receives validated events
+								onMalformed: ({ event, issues }) =>
+									console.warn(
+										`Skipped malformed Mix "${event}" event: ${issues.join("; ")}`,
+									),
+							},
+							{
+								planMode: features.planMode,
+								connectTimeoutMs: timeouts.streamConnectMs,
+								signal: cancellation.signal,
+							},
+						)
+							.catch((error: unknown) => {
+								send("error", {
+									error: error instanceof Error ? error.message : String(error),
+								});
+							})
+							.finally(close);
+					},
+					cancel() {
+						disconnect();
+					},
+				});
+
+				return new Response(stream, { headers: SSE_HEADERS });
+			},
+		},
+	},
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+import viteReact from '@vitejs/plugin-react'
+import viteTsConfigPaths from 'vite-tsconfig-paths'
+
+// Tests run without the Start and Netlify plugins: they split route
+// components into lazy chunks and load a second copy of React
+const config = defineConfig({
+  plugins: [
+    viteTsConfigPaths({
+      projects: ['./tsconfig.json'],
+    }),
+    viteReact(),
+  ],
+})
+
+export default config